@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useRef, useCallback, useEffect } from "react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Slider } from "@/components/ui/slider"
@@ -10,21 +10,92 @@ import { Badge } from "@/components/ui/badge"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Progress } from "@/components/ui/progress"
 import { Separator } from "@/components/ui/separator"
-import { Upload, Play, Square, Download, Trash2, Plus, Settings, Zap, Clock, Cpu, Monitor, ChevronLeft, ChevronRight, Images, Archive } from "lucide-react"
-import { ReglSurface, type Filter, type FilterTemplate, type ProcessingResult, processImageWithPipeline } from "@/lib/gpu/ReglSurface"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Upload, Play, Square, Download, Trash2, Plus, Settings, Zap, Clock, Cpu, Monitor, ChevronLeft, ChevronRight, Images, Archive, FileDown, FileUp, AlertCircle, GripVertical, Copy, Undo2, Redo2, History, List, Workflow, FolderOpen, Pause, SkipForward, RotateCcw } from "lucide-react"
+import { ReglSurface, type Filter, type InputSource, type ProcessingResult, type StageTiming, processImageWithPipeline } from "@/lib/gpu/ReglSurface"
+import { StageTimingChart } from "@/components/stage-timing-chart"
+import { PipelineGraph } from "@/components/pipeline-graph"
+import { OutputSizeControl } from "@/components/output-size-control"
+import { ExportSettingsControl } from "@/components/export-settings-control"
+import { PipelineDocumentError, instantiateFilter, parsePipelineJson, serializePipeline } from "@/lib/pipeline/document"
+import { duplicateFilter, moveFilter, removeFilter, setFilterInput } from "@/lib/pipeline/operations"
+import { describeInputSource } from "@/lib/pipeline/graph"
+import { DEFAULT_OUTPUT_SIZE_POLICY, resolveOutputSize, type OutputSizePolicy } from "@/lib/pipeline/output-size"
+import { DEFAULT_MATTE_COLOR, PRECISION_OPTIONS, type PipelineSettings } from "@/lib/pipeline/settings"
+import type { RenderPrecision } from "@/lib/gpu/formats"
+import type { FrameTimingResult } from "@/lib/gpu/engine"
+import { OUTPUT_SPACE_OPTIONS, WORKING_SPACE_OPTIONS, type OutputSpace, type WorkingSpace } from "@/lib/gpu/color"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { usePipelineHistory } from "@/hooks/use-pipeline-history"
+import { useFilterTemplates } from "@/hooks/use-filter-registry"
+import {
+  downloadBlob,
+  isExportCancelled,
+  openDirectoryExport,
+  openZipExport,
+  supportsDirectoryExport,
+  type ExportDestination,
+  type ExportTarget,
+} from "@/lib/export/destination"
+import { renderFileName, uniqueFileName } from "@/lib/export/filename"
+import { MANIFEST_FILENAME, createExportManifest, describeExportedImage, type ExportedImage } from "@/lib/export/manifest"
+import { detectExportFormats, encodeExportImage, needsReencoding, readCarriedMetadata } from "@/lib/export/encode"
+import { DEFAULT_EXPORT_SETTINGS, getExportFormat, type ExportFormat, type ExportSettings } from "@/lib/export/settings"
+import { decodeImage } from "@/lib/gpu/codecs"
+import {
+  DEFAULT_ENGINE_WORKERS,
+  MAX_ENGINE_WORKERS,
+  EngineWorkerPool,
+  progressFraction,
+  supportsEngineWorker,
+} from "@/lib/gpu/worker"
+import { BatchController, type BatchReport, type BatchState } from "@/lib/batch/controller"
+
+const PIPELINE_STORAGE_KEY = "gpu-pipeline-document"
+
+function filterName(pipeline: Filter[], filterId: string) {
+  return pipeline.find((f) => f.id === filterId)?.name ?? filterId
+}
+
+function optionLabel(options: { value: string; label: string }[], value: string) {
+  return options.find((option) => option.value === value)?.label ?? value
+}
+
+// Data URLs and object URLs alike
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  return new Uint8Array(await (await fetch(url)).arrayBuffer())
+}
+
+// Enabled filters for the {pipeline} file name token, e.g. "blur_sharpen"
+function pipelineLabel(pipeline: Filter[]) {
+  return pipeline.filter((f) => f.enabled).map((f) => f.id.split("-")[0]).join("_")
+}
+
+// A processed image as the export settings ask for it, with metadata carried over from the source file
+async function encodeForExport(processedDataUrl: string, sourceSrc: string, settings: ExportSettings, pipelineSettings: PipelineSettings) {
+  const png = await fetchBytes(processedDataUrl)
+  if (!needsReencoding(settings)) return png
+  const metadata = await readCarriedMetadata(await fetchBytes(sourceSrc), settings, pipelineSettings.outputSpace)
+  return encodeExportImage(decodeImage(png), settings, metadata, pipelineSettings.matte)
+}
 
 interface ImageData {
   src: string
   name: string
   dimensions: { width: number; height: number }
   processedDataUrl?: string
+  // Metrics of the render behind processedDataUrl, for the export manifest
+  processedResult?: ProcessingResult
 }
 
 interface PerformanceMetrics {
   gpuTime: number
+  gpuTimeMeasured: boolean
   totalTime: number
   memoryUsage: number
-  throughput: number
+  // Over wall-clock time, so images processed in parallel count once
+  imagesPerSecond: number
+  megapixelsPerSecond: number
   imagesProcessed: number
   averageTimePerImage: number
 }
@@ -32,107 +103,115 @@ interface PerformanceMetrics {
 export default function GPUImageProcessingUI() {
   const [images, setImages] = useState<ImageData[]>([])
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
-  const [pipeline, setPipeline] = useState<Filter[]>([])
+  const {
+    pipeline,
+    settings: pipelineSettings,
+    entries: historyEntries,
+    index: historyIndex,
+    canUndo,
+    canRedo,
+    apply: applyPipelineEdit,
+    applySettings: applyPipelineSettings,
+    seal: sealPipelineEdit,
+    undo,
+    redo,
+    jumpTo: jumpToHistory,
+    reset: resetPipelineHistory,
+  } = usePipelineHistory()
   const [performanceMetrics, setPerformanceMetrics] = useState<PerformanceMetrics>({
     gpuTime: 0,
+    gpuTimeMeasured: false,
     totalTime: 0,
     memoryUsage: 0,
-    throughput: 0,
+    imagesPerSecond: 0,
+    megapixelsPerSecond: 0,
     imagesProcessed: 0,
     averageTimePerImage: 0
   })
+  const [stageTimings, setStageTimings] = useState<StageTiming[]>([])
+  const [previewError, setPreviewError] = useState<{ message: string; issues: string[] } | null>(null)
   const [isProcessing, setIsProcessing] = useState(false)
   const [processingProgress, setProcessingProgress] = useState(0)
   const [currentProcessingImage, setCurrentProcessingImage] = useState("")
   const [isExporting, setIsExporting] = useState(false)
+  const [batchState, setBatchState] = useState<BatchState>("idle")
+  const [batchController] = useState(() => new BatchController(setBatchState))
+  const [batchReport, setBatchReport] = useState<BatchReport<ImageData> | null>(null)
+  const [batchConcurrency, setBatchConcurrency] = useState(DEFAULT_ENGINE_WORKERS)
   const [exportProgress, setExportProgress] = useState(0)
   const [currentExportingImage, setCurrentExportingImage] = useState("")
   const fileInputRef = useRef<HTMLInputElement>(null)
   const thumbnailScrollRef = useRef<HTMLDivElement>(null)
+  const pipelineFileInputRef = useRef<HTMLInputElement>(null)
+  const pipelineRestoredRef = useRef(false)
+  const engineWorkersRef = useRef<EngineWorkerPool | null>(null)
+  const engineWorkerFailedRef = useRef(false)
+  const [pipelineError, setPipelineError] = useState<{ message: string; issues: string[] } | null>(null)
   const [recentlyAdded, setRecentlyAdded] = useState<string>("")
+  const [draggedFilterId, setDraggedFilterId] = useState<string | null>(null)
+  const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null)
+  const [pipelineView, setPipelineView] = useState<"list" | "graph">("list")
+  // While a slider is dragged the preview renders a reduced-resolution proxy
+  const [isAdjusting, setIsAdjusting] = useState(false)
+  const [outputSizePolicy, setOutputSizePolicy] = useState<OutputSizePolicy>(DEFAULT_OUTPUT_SIZE_POLICY)
 
-  const availableFilters: FilterTemplate[] = [
-    { 
-      id: "debug", 
-      name: "🔴 Debug Red Tint", 
-      type: "debug", 
-      defaultParams: {},
-      paramConfig: {}
-    },
-    {
-      id: "blur",
-      name: "Gaussian Blur",
-      type: "convolution",
-      defaultParams: { radius: 1.0 },
-      paramConfig: {
-        radius: { min: 0.5, max: 5, step: 0.1 }
-      }
-    },
-    {
-      id: "sharpen",
-      name: "Sharpen",
-      type: "convolution",
-      defaultParams: { strength: 1.0 },
-      paramConfig: {
-        strength: { min: 0, max: 3, step: 0.1 }
-      }
-    },
-    {
-      id: "edge",
-      name: "Edge Detection",
-      type: "convolution",
-      defaultParams: { threshold: 0.5 },
-      paramConfig: {
-        threshold: { min: 0.1, max: 2, step: 0.1 }
-      }
-    },
-    {
-      id: "brightness",
-      name: "Brightness",
-      type: "color",
-      defaultParams: { value: 0.0 },
-      paramConfig: {
-        value: { min: -50, max: 50, step: 1 }
-      }
-    },
-    {
-      id: "contrast",
-      name: "Contrast",
-      type: "color",
-      defaultParams: { value: 1.0 },
-      paramConfig: {
-        value: { min: 0.1, max: 3, step: 0.1 }
-      }
-    },
-    {
-      id: "saturation",
-      name: "Saturation",
-      type: "color",
-      defaultParams: { value: 1.0 },
-      paramConfig: {
-        value: { min: 0, max: 3, step: 0.1 }
-      }
-    },
-    {
-      id: "noise",
-      name: "Noise Reduction",
-      type: "advanced",
-      defaultParams: { strength: 0.5 },
-      paramConfig: {
-        strength: { min: 0, max: 1, step: 0.1 }
+  const availableFilters = useFilterTemplates()
+
+  // Feature-detected after mount so server and client render the same buttons
+  const [canExportToDirectory, setCanExportToDirectory] = useState(false)
+  useEffect(() => setCanExportToDirectory(supportsDirectoryExport()), [])
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS)
+  const [exportFormats, setExportFormats] = useState<ExportFormat[]>(["png"])
+  useEffect(() => {
+    detectExportFormats().then(setExportFormats)
+  }, [])
+
+  // Loaded images by name, for filter inputs wired to another image (e.g. a blend layer)
+  const auxiliaryImages = useMemo(
+    () => Object.fromEntries(images.map((image) => [image.name, image.src])),
+    [images]
+  )
+
+  // Restore the last pipeline from localStorage, then keep it saved on every change
+  useEffect(() => {
+    const saved = localStorage.getItem(PIPELINE_STORAGE_KEY)
+    if (saved) {
+      try {
+        const restored = parsePipelineJson(saved, availableFilters)
+        resetPipelineHistory(restored.filters, "Restored pipeline", restored.settings)
+      } catch (error) {
+        console.warn("Discarding saved pipeline:", error)
       }
-    },
-    {
-      id: "bilateral",
-      name: "Bilateral Filter",
-      type: "advanced",
-      defaultParams: { spatial: 1.0, color: 0.1 },
-      paramConfig: {
-        spatial: { min: 0.5, max: 3, step: 0.1 },
-        color: { min: 0.01, max: 1, step: 0.01 }
+    }
+    pipelineRestoredRef.current = true
+  }, [])
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) step through pipeline history. Ignored during a batch or
+  // export, which would otherwise render later images with a different pipeline than earlier ones.
+  useEffect(() => {
+    if (isProcessing || isExporting) return
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return
+      const target = event.target as HTMLElement | null
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return
+
+      const key = event.key.toLowerCase()
+      if (key === "z" && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === "z" && event.shiftKey) || key === "y") {
+        event.preventDefault()
+        redo()
       }
-    },
-  ];
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [undo, redo, isProcessing, isExporting])
+
+  useEffect(() => {
+    if (!pipelineRestoredRef.current) return
+    localStorage.setItem(PIPELINE_STORAGE_KEY, JSON.stringify(serializePipeline(pipeline, pipelineSettings)))
+  }, [pipeline, pipelineSettings])
 
   // Auto-scroll thumbnail carousel to current image
   useEffect(() => {
@@ -175,9 +254,11 @@ export default function GPUImageProcessingUI() {
         setCurrentImageIndex(0)
         setPerformanceMetrics({
           gpuTime: 0,
+          gpuTimeMeasured: false,
           totalTime: 0,
           memoryUsage: 0,
-          throughput: 0,
+          imagesPerSecond: 0,
+          megapixelsPerSecond: 0,
           imagesProcessed: 0,
           averageTimePerImage: 0
         })
@@ -185,100 +266,161 @@ export default function GPUImageProcessingUI() {
     }
   }, [])
 
+  const handlePreviewComplete = useCallback((result: ProcessingResult) => {
+    setPreviewError(result.success ? null : { message: result.error ?? "Processing failed", issues: result.errors ?? [] })
+  }, [])
+
+  // Proxy renders are smaller than the preview, so their timings would understate the real cost
+  const handlePreviewTimings = useCallback((timings: FrameTimingResult, proxy: boolean) => {
+    if (timings.stageTimings && !proxy) {
+      setStageTimings(timings.stageTimings)
+    }
+  }, [])
+
   const updateMetricsRealTime = useCallback((
-    completedImages: number, 
-    totalImages: number, 
-    accumulatedGpuTime: number, 
-    accumulatedTotalTime: number, 
-    maxMemoryUsage: number
+    completedImages: number,
+    accumulatedGpuTime: number,
+    gpuTimeMeasured: boolean,
+    elapsedTime: number,
+    accumulatedImageTime: number,
+    maxMemoryUsage: number,
+    megapixels: number
   ) => {
-    const averageTimePerImage = completedImages > 0 ? accumulatedTotalTime / completedImages : 0
-    
-    // Calculate throughput based on completed images
-    const totalDataSize = images.slice(0, completedImages).reduce((sum, img) => {
-      const pixels = img.dimensions.width * img.dimensions.height
-      return sum + (pixels * 4) / (1024 * 1024) // RGBA bytes to MB
-    }, 0)
-    const throughput = accumulatedTotalTime > 0 ? totalDataSize / (accumulatedTotalTime / 1000) : 0
+    // Per-image times overlap when images run in parallel, so the average is latency, not cost
+    const averageTimePerImage = completedImages > 0 ? accumulatedImageTime / completedImages : 0
+    const seconds = elapsedTime / 1000
 
     setPerformanceMetrics({
       gpuTime: accumulatedGpuTime,
-      totalTime: accumulatedTotalTime,
+      gpuTimeMeasured: gpuTimeMeasured,
+      totalTime: elapsedTime,
       memoryUsage: maxMemoryUsage,
-      throughput: throughput,
+      imagesPerSecond: seconds > 0 ? completedImages / seconds : 0,
+      megapixelsPerSecond: seconds > 0 ? megapixels / seconds : 0,
       imagesProcessed: completedImages,
       averageTimePerImage: averageTimePerImage
     })
-  }, [images])
+  }, [])
 
-  const processAllImages = useCallback(async () => {
-    if (images.length === 0 || pipeline.filter(f => f.enabled).length === 0) return
+  useEffect(() => () => engineWorkersRef.current?.destroy(), [])
+  useEffect(() => engineWorkersRef.current?.resize(batchConcurrency), [batchConcurrency])
+
+  // Batch renders run in engine workers where the browser supports it, so sliders, the carousel and
+  // the progress bar stay responsive. Elsewhere, or once a worker has failed, they run on the main
+  // thread, sharing the processor pool's contexts.
+  const renderBatchImage = useCallback(async (
+    src: string,
+    width: number,
+    height: number,
+    onProgress: (fraction: number) => void,
+    signal?: AbortSignal
+  ): Promise<ProcessingResult> => {
+    const options = { auxiliaryImages, ...pipelineSettings, signal }
+    if (supportsEngineWorker() && !engineWorkerFailedRef.current) {
+      try {
+        engineWorkersRef.current ??= new EngineWorkerPool(batchConcurrency)
+        const { result } = await engineWorkersRef.current.process(src, pipeline, width, height, {
+          ...options,
+          onProgress: (progress) => onProgress(progressFraction(progress)),
+        })
+        return result
+      } catch (error) {
+        if (signal?.aborted) throw error
+        console.warn("Engine worker unavailable, processing on the main thread:", error)
+        engineWorkerFailedRef.current = true
+        engineWorkersRef.current?.destroy()
+        engineWorkersRef.current = null
+      }
+    }
+    return processImageWithPipeline(src, pipeline, width, height, {
+      ...options,
+      onProgress: (completed, total) => onProgress(completed / total),
+    })
+  }, [pipeline, auxiliaryImages, pipelineSettings, batchConcurrency])
+
+  // Runs `targets` through the pipeline as one batch; the report lists what succeeded, failed or was skipped
+  const processImages = useCallback(async (targets: ImageData[]) => {
+    if (targets.length === 0 || pipeline.filter(f => f.enabled).length === 0) return
 
     setIsProcessing(true)
     setProcessingProgress(0)
+    setBatchReport(null)
 
     const batchStartTime = performance.now()
     let accumulatedGpuTime = 0
-    let accumulatedTotalTime = 0
+    let gpuTimeMeasured = true
+    let accumulatedImageTime = 0
     let maxMemoryUsage = 0
-    const processedImages = [...images]
+    let megapixels = 0
+    let completed = 0
+    const startTimes = new Map<number, number>()
+    const outputPixels = new Map<number, number>()
+    // 0-1 per image; images in flight each contribute their part
+    const itemProgress = new Array<number>(targets.length).fill(0)
+    const reportProgress = (i: number, fraction: number) => {
+      itemProgress[i] = fraction
+      setProcessingProgress((itemProgress.reduce((sum, value) => sum + value, 0) / targets.length) * 100)
+    }
+    // Keyed by the image itself, since the same source can be loaded more than once
+    const processed = new Map<ImageData, Pick<ImageData, "processedDataUrl" | "processedResult">>()
 
     try {
-      for (let i = 0; i < images.length; i++) {
-        const image = images[i]
-        setCurrentProcessingImage(image.name)
-        setCurrentImageIndex(i) // Auto-scroll carousel
-        setProcessingProgress((i / images.length) * 100)
-
-        // Get fitted dimensions for processing
-        const { width: processWidth, height: processHeight } = getFittedSize(
-          image.dimensions.width, 
-          image.dimensions.height, 
-          1920, 
-          1080
-        )
-
-        console.log(`🎨 Processing ${image.name} at ${processWidth}x${processHeight}...`)
-
-        const imageStartTime = performance.now()
-        const result = await processImageWithPipeline(
-          image.src,
-          pipeline,
-          processWidth,
-          processHeight
-        )
-
-        if (result.success) {
-          const imageEndTime = performance.now()
-          const imageTotalTime = imageEndTime - imageStartTime
-          
-          accumulatedGpuTime += result.gpuTime
-          accumulatedTotalTime += imageTotalTime
-          maxMemoryUsage = Math.max(maxMemoryUsage, result.memoryUsage)
-          processedImages[i] = { ...image, processedDataUrl: result.imageDataUrl }
-          
-          // Update metrics in real-time
-          updateMetricsRealTime(i + 1, images.length, accumulatedGpuTime, accumulatedTotalTime, maxMemoryUsage)
-          
-          console.log(`✅ ${image.name}: ${imageTotalTime.toFixed(2)}ms (GPU: ${result.gpuTime.toFixed(2)}ms)`)
-        } else {
-          console.error(`❌ Failed to process ${image.name}:`, result.error)
-          // Still update metrics for failed images
-          const imageEndTime = performance.now()
-          const imageTotalTime = imageEndTime - imageStartTime
-          accumulatedTotalTime += imageTotalTime
-          updateMetricsRealTime(i + 1, images.length, accumulatedGpuTime, accumulatedTotalTime, maxMemoryUsage)
-        }
-
-        // Small delay to allow UI updates and smooth scrolling
-        await new Promise(resolve => setTimeout(resolve, 100))
-      }
+      const report = await batchController.run(
+        targets,
+        (image, i, signal) => {
+          // Outputs larger than one render target are tiled by the engine
+          const { width, height } = resolveOutputSize(outputSizePolicy, image.dimensions.width, image.dimensions.height)
+          outputPixels.set(i, width * height)
+          console.log(`🎨 Processing ${image.name} at ${width}x${height}...`)
+          return renderBatchImage(image.src, width, height, (fraction) => reportProgress(i, fraction), signal)
+        },
+        {
+          onItemStart: (image, i) => {
+            setCurrentProcessingImage(image.name)
+            setCurrentImageIndex(images.indexOf(image)) // Auto-scroll carousel
+            startTimes.set(i, performance.now())
+          },
+          onItemDone: ({ item: image, index: i, status, result, error }) => {
+            reportProgress(i, 1)
+            if (status === "skipped") {
+              console.log(`⏭️ Skipped ${image.name}`)
+              return
+            }
+            const imageTotalTime = performance.now() - startTimes.get(i)!
+            accumulatedImageTime += imageTotalTime
+            completed++
+            if (status === "succeeded" && result) {
+              accumulatedGpuTime += result.gpuTime
+              gpuTimeMeasured = gpuTimeMeasured && !!result.gpuTimeMeasured
+              maxMemoryUsage = Math.max(maxMemoryUsage, result.memoryUsage)
+              if (result.stageTimings) setStageTimings(result.stageTimings)
+              megapixels += outputPixels.get(i)! / 1e6
+              processed.set(image, { processedDataUrl: result.imageDataUrl, processedResult: result })
+              console.log(`✅ ${image.name}: ${imageTotalTime.toFixed(2)}ms (GPU: ${result.gpuTime.toFixed(2)}ms${result.gpuTimeMeasured ? '' : ' est.'}${result.tiles && result.tiles > 1 ? `, ${result.tiles} tiles` : ''})`)
+            } else {
+              console.error(`❌ Failed to process ${image.name}:`, error, result?.errors ?? "")
+            }
+            // Failed images still count toward the metrics
+            updateMetricsRealTime(
+              completed,
+              accumulatedGpuTime,
+              gpuTimeMeasured,
+              performance.now() - batchStartTime,
+              accumulatedImageTime,
+              maxMemoryUsage,
+              megapixels
+            )
+          },
+        },
+        { concurrency: batchConcurrency }
+      )
 
-      // Update images with processed results
-      setImages(processedImages)
+      // Keep whatever finished, even when the batch was cancelled
+      setImages(prev => prev.map(img => processed.has(img) ? { ...img, ...processed.get(img) } : img))
+      setBatchReport(report)
       setProcessingProgress(100)
 
-      console.log(`🎉 Batch processing completed!`)
+      console.log(`🎉 Batch processing ${report.cancelled ? 'cancelled' : 'completed'}: ${report.succeeded} succeeded, ${report.failed} failed, ${report.skipped} skipped`)
 
     } catch (error) {
       console.error('Error during batch processing:', error)
@@ -287,130 +429,257 @@ export default function GPUImageProcessingUI() {
       setCurrentProcessingImage("")
       setTimeout(() => setProcessingProgress(0), 2000)
     }
-  }, [images, pipeline, updateMetricsRealTime])
+  }, [images, pipeline, outputSizePolicy, batchController, batchConcurrency, renderBatchImage, updateMetricsRealTime])
+
+  const processAllImages = useCallback(() => processImages(images), [processImages, images])
 
-  const batchExport = useCallback(async () => {
+  const retryFailedImages = useCallback(() => {
+    if (!batchReport) return
+    // Failed images were not replaced after the batch, so they are still the same objects
+    const failed = new Set(batchReport.items.filter(entry => entry.status === "failed").map(entry => entry.item))
+    processImages(images.filter(image => failed.has(image)))
+  }, [batchReport, images, processImages])
+
+  const batchExport = useCallback(async (target: ExportTarget) => {
     if (images.length === 0) return
 
+    const enabledFilters = pipeline.filter(f => f.enabled)
+    const filterNames = pipelineLabel(pipeline)
+    const exportDate = new Date()
+    const { extension } = getExportFormat(exportSettings.format)
+
+    // Pick the destination first: a cancelled picker should not render anything
+    let destination: ExportDestination
+    try {
+      destination = target === "directory"
+        ? await openDirectoryExport()
+        : await openZipExport(`${enabledFilters.length > 0 ? `processed_${filterNames}` : "originals"}.zip`)
+    } catch (error) {
+      if (!isExportCancelled(error)) console.error('Could not open the export destination:', error)
+      return
+    }
+
     setIsExporting(true)
     setExportProgress(0)
 
-    const enabledFilters = pipeline.filter(f => f.enabled)
-    
+    const usedNames = new Set<string>([MANIFEST_FILENAME])
+    const exported: ExportedImage[] = []
+
     try {
-      if (enabledFilters.length === 0) {
-        // Export original images
-        for (let i = 0; i < images.length; i++) {
-          const image = images[i]
-          setCurrentExportingImage(image.name)
-          setCurrentImageIndex(i)
-          setExportProgress((i / images.length) * 100)
-
-          const link = document.createElement('a')
-          link.href = image.src
-          link.download = `original_${image.name}`
-          document.body.appendChild(link)
-          link.click()
-          document.body.removeChild(link)
-
-          // Delay between downloads
-          await new Promise(resolve => setTimeout(resolve, 200))
+      for (let i = 0; i < images.length; i++) {
+        const image = images[i]
+        setCurrentExportingImage(image.name)
+        setCurrentImageIndex(i) // Auto-scroll carousel during export
+        setExportProgress((i / images.length) * 100)
+
+        if (enabledFilters.length === 0) {
+          // Export original images
+          const file = uniqueFileName(image.name, usedNames)
+          await destination.write(file, await fetchBytes(image.src))
+          exported.push(describeExportedImage(image.name, file, image.dimensions))
+          continue
         }
-      } else {
-        // Export processed images
-        for (let i = 0; i < images.length; i++) {
-          const image = images[i]
-          setCurrentExportingImage(image.name)
-          setCurrentImageIndex(i) // Auto-scroll carousel during export
-          setExportProgress((i / images.length) * 100)
-
-          let dataUrl = image.processedDataUrl
-
-          // If not already processed, process it now
-          if (!dataUrl) {
-            const { width, height } = getFittedSize(
-              image.dimensions.width, 
-              image.dimensions.height, 
-              1920, 
-              1080
-            )
 
-            console.log(`🔄 Processing ${image.name} for export...`)
-            const result = await processImageWithPipeline(image.src, pipeline, width, height)
-            if (result.success && result.imageDataUrl) {
-              dataUrl = result.imageDataUrl
-              // Update the image with processed result
-              setImages(prev => prev.map((img, idx) => 
-                idx === i ? { ...img, processedDataUrl: dataUrl } : img
-              ))
-            } else {
-              console.error(`Failed to process ${image.name} for export`)
-              continue
-            }
-          }
+        const { width, height } = resolveOutputSize(
+          outputSizePolicy,
+          image.dimensions.width,
+          image.dimensions.height
+        )
+        let dataUrl = image.processedDataUrl
+        let result = image.processedResult
 
-          if (dataUrl) {
-            const link = document.createElement('a')
-            link.href = dataUrl
-            const baseName = image.name.replace(/\.[^/.]+$/, "") // Remove extension
-            const filterNames = enabledFilters.map(f => f.id.split('-')[0]).join('_')
-            link.download = `${baseName}_processed_${filterNames}.png`
-            document.body.appendChild(link)
-            link.click()
-            document.body.removeChild(link)
-
-            console.log(`💾 Exported: ${link.download}`)
+        // If not already processed, process it now
+        if (!dataUrl) {
+          console.log(`🔄 Processing ${image.name} for export...`)
+          result = await renderBatchImage(image.src, width, height, (fraction) =>
+            setExportProgress(((i + fraction) / images.length) * 100)
+          )
+          if (result.success && result.imageDataUrl) {
+            const processed = { processedDataUrl: result.imageDataUrl, processedResult: result }
+            dataUrl = result.imageDataUrl
+            // Update the image with processed result
+            setImages(prev => prev.map((img, idx) => 
+              idx === i ? { ...img, ...processed } : img
+            ))
+          } else {
+            console.error(`Failed to process ${image.name} for export`)
+            exported.push(describeExportedImage(image.name, null, { width, height }, result))
+            continue
           }
         }
+
+        const file = uniqueFileName(
+          renderFileName(exportSettings.fileNameTemplate, {
+            name: image.name,
+            pipeline: filterNames,
+            date: exportDate,
+            index: i + 1,
+            width,
+            height,
+            ext: extension,
+          }),
+          usedNames
+        )
+        await destination.write(file, await encodeForExport(dataUrl, image.src, exportSettings, pipelineSettings))
+        exported.push(describeExportedImage(image.name, file, { width, height }, result))
+        console.log(`💾 Exported: ${file}`)
       }
 
+      const manifest = createExportManifest(pipeline, pipelineSettings, outputSizePolicy, exportSettings, exported)
+      await destination.write(MANIFEST_FILENAME, new TextEncoder().encode(JSON.stringify(manifest, null, 2)))
+      await destination.close()
+
       setExportProgress(100)
-      console.log(`📦 Batch export completed: ${images.length} images`)
+      console.log(`📦 Batch export completed: ${exported.filter(image => image.success).length} of ${images.length} images`)
 
     } catch (error) {
       console.error('Error during batch export:', error)
+      await destination.abort().catch(() => {})
     } finally {
       setIsExporting(false)
       setCurrentExportingImage("")
       setTimeout(() => setExportProgress(0), 2000)
     }
-  }, [images, pipeline])
+  }, [images, pipeline, outputSizePolicy, pipelineSettings, exportSettings, renderBatchImage])
+
+  const saveCurrentImage = useCallback(async () => {
+    const image = images[currentImageIndex]
+    if (!image) return
+
+    if (!image.processedDataUrl) {
+      // Without filters the original is the result
+      if (pipeline.some(f => f.enabled)) return
+      downloadBlob(new Blob([await fetchBytes(image.src)]), `processed_${image.name}`)
+      return
+    }
+
+    try {
+      const { width, height } = resolveOutputSize(outputSizePolicy, image.dimensions.width, image.dimensions.height)
+      const { extension, mimeType } = getExportFormat(exportSettings.format)
+      const file = renderFileName(exportSettings.fileNameTemplate, {
+        name: image.name,
+        pipeline: pipelineLabel(pipeline),
+        date: new Date(),
+        index: currentImageIndex + 1,
+        width,
+        height,
+        ext: extension,
+      })
+      const bytes = await encodeForExport(image.processedDataUrl, image.src, exportSettings, pipelineSettings)
+      downloadBlob(new Blob([bytes], { type: mimeType }), file)
+    } catch (error) {
+      console.error(`Could not save ${image.name}:`, error)
+    }
+  }, [images, currentImageIndex, pipeline, outputSizePolicy, pipelineSettings, exportSettings])
 
   const addFilterToPipeline = useCallback((filterId: string) => {
     const filterTemplate = availableFilters.find((f) => f.id === filterId)
     if (filterTemplate) {
-      const newFilter: Filter = {
-        id: `${filterId}-${Date.now()}`,
-        name: filterTemplate.name,
-        type: filterTemplate.type,
-        parameters: { ...filterTemplate.defaultParams },
-        enabled: true,
-        paramConfig: filterTemplate.paramConfig,
-      }
-      setPipeline((prev) => [...prev, newFilter])
+      const newFilter = instantiateFilter(filterTemplate)
+      applyPipelineEdit((prev) => [...prev, newFilter], `Add ${filterTemplate.name}`)
 
       setRecentlyAdded(filterId)
       setTimeout(() => setRecentlyAdded(""), 600)
     }
-  }, [])
+  }, [availableFilters, applyPipelineEdit])
 
   const removeFilterFromPipeline = useCallback((filterId: string) => {
-    setPipeline((prev) => prev.filter((f) => f.id !== filterId))
-  }, [])
+    applyPipelineEdit(
+      (prev) => removeFilter(prev, filterId),
+      (prev) => `Remove ${filterName(prev, filterId)}`,
+    )
+  }, [applyPipelineEdit])
 
+  // Continuous slider drags coalesce into a single history entry per filter parameter
   const updateFilterParameter = useCallback((filterId: string, paramName: string, value: number) => {
-    setPipeline((prev) =>
-      prev.map((filter) =>
-        filter.id === filterId ? { ...filter, parameters: { ...filter.parameters, [paramName]: value } } : filter,
-      ),
+    applyPipelineEdit(
+      (prev) =>
+        prev.map((filter) =>
+          filter.id === filterId ? { ...filter, parameters: { ...filter.parameters, [paramName]: value } } : filter,
+        ),
+      (prev) => `${filterName(prev, filterId)}: ${paramName} → ${Number(value.toFixed(3))}`,
+      { coalesceKey: `${filterId}:${paramName}` },
     )
-  }, [])
+  }, [applyPipelineEdit])
 
   const toggleFilter = useCallback((filterId: string) => {
-    setPipeline((prev) =>
-      prev.map((filter) => (filter.id === filterId ? { ...filter, enabled: !filter.enabled } : filter)),
+    applyPipelineEdit(
+      (prev) => prev.map((filter) => (filter.id === filterId ? { ...filter, enabled: !filter.enabled } : filter)),
+      (_prev, next) => `${next.find((f) => f.id === filterId)?.enabled ? "Enable" : "Disable"} ${filterName(next, filterId)}`,
     )
-  }, [])
+  }, [applyPipelineEdit])
+
+  const moveFilterInPipeline = useCallback((filterId: string, toIndex: number) => {
+    applyPipelineEdit(
+      (prev) => moveFilter(prev, filterId, toIndex),
+      (_prev, next) => `Move ${filterName(next, filterId)} to position ${next.findIndex((f) => f.id === filterId) + 1}`,
+    )
+  }, [applyPipelineEdit])
+
+  const updateFilterInput = useCallback((filterId: string, inputId: string, source: InputSource | null) => {
+    applyPipelineEdit(
+      (prev) => setFilterInput(prev, filterId, inputId, source),
+      (prev) => `${filterName(prev, filterId)}: ${inputId} ← ${source ? describeInputSource(prev, source) : "default"}`,
+    )
+  }, [applyPipelineEdit])
+
+  const duplicateFilterInPipeline = useCallback((filterId: string) => {
+    applyPipelineEdit(
+      (prev) => duplicateFilter(prev, filterId),
+      (prev) => `Duplicate ${filterName(prev, filterId)}`,
+    )
+  }, [applyPipelineEdit])
+
+  const handleFilterKeyDown = useCallback((event: React.KeyboardEvent, filterId: string, index: number) => {
+    if (event.key === 'ArrowUp' || event.key === 'ArrowDown') {
+      event.preventDefault()
+      moveFilterInPipeline(filterId, event.key === 'ArrowUp' ? index - 1 : index + 1)
+      // Keep focus on the moved stage's handle so repeated key presses keep moving it
+      requestAnimationFrame(() => document.getElementById(`drag-handle-${filterId}`)?.focus())
+    }
+  }, [moveFilterInPipeline])
+
+  const handleFilterDrop = useCallback((index: number) => {
+    if (draggedFilterId) {
+      const fromIndex = pipeline.findIndex((f) => f.id === draggedFilterId)
+      // Dropping below the dragged item shifts the target up by one once the item is removed
+      moveFilterInPipeline(draggedFilterId, fromIndex < index ? index - 1 : index)
+    }
+    setDraggedFilterId(null)
+    setDropTargetIndex(null)
+  }, [draggedFilterId, pipeline, moveFilterInPipeline])
+
+  const exportPipeline = useCallback(() => {
+    const pipelineDocument = serializePipeline(pipeline, pipelineSettings)
+    const blob = new Blob([JSON.stringify(pipelineDocument, null, 2)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `pipeline_${pipeline.map(f => f.id.split('-')[0]).join('_')}.json`
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }, [pipeline, pipelineSettings])
+
+  const importPipeline = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const imported = parsePipelineJson(await file.text(), availableFilters)
+      applyPipelineEdit(() => imported.filters, `Import ${file.name}`, { settings: () => imported.settings })
+      setPipelineError(null)
+      console.log(`📥 Imported pipeline with ${imported.filters.length} filters from ${file.name}`)
+    } catch (error) {
+      if (error instanceof PipelineDocumentError) {
+        setPipelineError({ message: error.message, issues: error.issues })
+      } else {
+        setPipelineError({ message: `Failed to read ${file.name}`, issues: [] })
+      }
+    }
+  }, [availableFilters, applyPipelineEdit])
 
   const navigateCarousel = useCallback((direction: 'prev' | 'next') => {
     setCurrentImageIndex((prevIndex) => {
@@ -516,7 +785,7 @@ export default function GPUImageProcessingUI() {
                       {isProcessing ? (
                         <>
                           <div className="w-4 h-4 mr-2 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                          Processing...
+                          {batchState === "paused" ? "Paused" : batchState === "cancelling" ? "Stopping..." : "Processing..."}
                         </>
                       ) : (
                         <>
@@ -525,20 +794,43 @@ export default function GPUImageProcessingUI() {
                         </>
                       )}
                     </Button>
+                    {isProcessing && (
+                      <>
+                        <Button
+                          variant="outline"
+                          className="flex items-center"
+                          onClick={() => (batchState === "paused" ? batchController.resume() : batchController.pause())}
+                          disabled={batchState === "cancelling"}
+                          title={batchState === "paused" ? undefined : "Finish the current image, then wait"}
+                        >
+                          {batchState === "paused" ? <Play className="w-4 h-4 mr-2" /> : <Pause className="w-4 h-4 mr-2" />}
+                          {batchState === "paused" ? "Resume" : "Pause"}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="flex items-center"
+                          onClick={() => batchController.skipCurrent()}
+                          disabled={batchState !== "running"}
+                        >
+                          <SkipForward className="w-4 h-4 mr-2" />
+                          Skip
+                        </Button>
+                        <Button
+                          variant="outline"
+                          className="flex items-center"
+                          onClick={() => batchController.cancel()}
+                          disabled={batchState === "cancelling"}
+                        >
+                          <Square className="w-4 h-4 mr-2" />
+                          Stop
+                        </Button>
+                      </>
+                    )}
                     <Button 
                       variant="outline" 
                       disabled={!currentImage || isProcessing || isExporting} 
                       className="flex items-center"
-                      onClick={() => {
-                        if (currentImage?.processedDataUrl || pipeline.filter(f => f.enabled).length === 0) {
-                          const link = document.createElement('a')
-                          link.href = currentImage.processedDataUrl || currentImage.src
-                          link.download = `processed_${currentImage.name}`
-                          document.body.appendChild(link)
-                          link.click()
-                          document.body.removeChild(link)
-                        }
-                      }}
+                      onClick={saveCurrentImage}
                     >
                       <Download className="w-4 h-4 mr-2" />
                       Save Current
@@ -547,7 +839,7 @@ export default function GPUImageProcessingUI() {
                       <Button 
                         variant="outline" 
                         className="flex items-center"
-                        onClick={batchExport}
+                        onClick={() => batchExport("zip")}
                         disabled={isProcessing || isExporting}
                       >
                         {isExporting ? (
@@ -558,13 +850,59 @@ export default function GPUImageProcessingUI() {
                         ) : (
                           <>
                             <Archive className="w-4 h-4 mr-2" />
-                            Batch Export
+                            Export ZIP
                           </>
                         )}
                       </Button>
                     )}
+                    {images.length > 1 && canExportToDirectory && (
+                      <Button
+                        variant="outline"
+                        className="flex items-center"
+                        onClick={() => batchExport("directory")}
+                        disabled={isProcessing || isExporting}
+                      >
+                        <FolderOpen className="w-4 h-4 mr-2" />
+                        Export to Folder
+                      </Button>
+                    )}
                   </div>
 
+                  <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                    <OutputSizeControl
+                      value={outputSizePolicy}
+                      onChange={setOutputSizePolicy}
+                      disabled={isProcessing || isExporting}
+                    />
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="text-gray-600">Parallel images</span>
+                      <Select
+                        value={String(batchConcurrency)}
+                        onValueChange={(value) => setBatchConcurrency(Number(value))}
+                        disabled={isProcessing || isExporting}
+                      >
+                        <SelectTrigger className="h-8 w-16 text-xs" title="Each parallel image uses its own WebGL context">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Array.from({ length: MAX_ENGINE_WORKERS }, (_, i) => i + 1).map((count) => (
+                            <SelectItem key={count} value={String(count)}>
+                              {count}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <ExportSettingsControl
+                    value={exportSettings}
+                    onChange={setExportSettings}
+                    formats={exportFormats}
+                    iccAvailable={pipelineSettings.outputSpace === "srgb"}
+                    disabled={isProcessing || isExporting}
+                  />
+
                   {/* Processing Progress */}
                   {isProcessing && (
                     <div className="space-y-2">
@@ -576,6 +914,39 @@ export default function GPUImageProcessingUI() {
                     </div>
                   )}
 
+                  {/* Batch Report */}
+                  {batchReport && !isProcessing && (
+                    <Alert variant={batchReport.failed > 0 ? "destructive" : "default"}>
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertTitle className="flex items-center justify-between gap-2">
+                        <span>
+                          {batchReport.cancelled ? "Batch stopped" : "Batch finished"}: {batchReport.succeeded} succeeded,{" "}
+                          {batchReport.failed} failed, {batchReport.skipped} skipped in {(batchReport.elapsedMs / 1000).toFixed(1)}s
+                        </span>
+                        <span className="flex items-center gap-3">
+                          {batchReport.failed > 0 && (
+                            <button className="flex items-center text-xs underline" onClick={retryFailedImages}>
+                              <RotateCcw className="w-3 h-3 mr-1" />
+                              Retry failed
+                            </button>
+                          )}
+                          <button className="text-xs underline" onClick={() => setBatchReport(null)}>
+                            Dismiss
+                          </button>
+                        </span>
+                      </AlertTitle>
+                      <AlertDescription>
+                        <ul className="list-disc pl-4 text-xs space-y-0.5 max-h-40 overflow-y-auto">
+                          {batchReport.items.map((entry) => (
+                            <li key={entry.index}>
+                              {entry.item.name}: {entry.status === "failed" ? `failed (${entry.error})` : entry.status}
+                            </li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
                   {/* Export Progress */}
                   {isExporting && (
                     <div className="space-y-2">
@@ -609,6 +980,14 @@ export default function GPUImageProcessingUI() {
                           <ReglSurface
                             image={currentImage.src}
                             pipeline={pipeline}
+                            auxiliaryImages={auxiliaryImages}
+                            precision={pipelineSettings.precision}
+                            matte={pipelineSettings.matte}
+                            workingSpace={pipelineSettings.workingSpace}
+                            outputSpace={pipelineSettings.outputSpace}
+                            interactive={isAdjusting}
+                            onProcessingComplete={handlePreviewComplete}
+                            onTimings={handlePreviewTimings}
                             {...getFittedSize(
                               currentImage.dimensions.width,
                               currentImage.dimensions.height,
@@ -618,6 +997,20 @@ export default function GPUImageProcessingUI() {
                           />
                         </div>
 
+                        {/* Preview Error Overlay */}
+                        {previewError && (
+                          <div className="absolute bottom-4 left-4 right-4 bg-red-50 border border-red-200 text-red-800 rounded-lg px-3 py-2 text-xs">
+                            <div className="font-medium">{previewError.message}</div>
+                            {previewError.issues.length > 0 && (
+                              <ul className="list-disc pl-4 mt-1 space-y-0.5">
+                                {previewError.issues.map((issue) => (
+                                  <li key={issue}>{issue}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
+
                         {/* Image Info Overlay */}
                         <div className="absolute top-4 left-4 bg-black/75 text-white px-3 py-1 rounded-lg text-sm">
                           {currentImage.name} | {currentImage.dimensions.width}×{currentImage.dimensions.height}
@@ -746,7 +1139,9 @@ export default function GPUImageProcessingUI() {
                           <div className="text-2xl font-bold text-blue-600">
                             {performanceMetrics.gpuTime.toFixed(0)}ms
                           </div>
-                          <div className="text-sm text-blue-800">GPU Time</div>
+                          <div className="text-sm text-blue-800">
+                            GPU Time{performanceMetrics.imagesProcessed > 0 && !performanceMetrics.gpuTimeMeasured && " (est.)"}
+                          </div>
                           {isProcessing && (
                             <div className="text-xs text-blue-600 animate-pulse">Updating...</div>
                           )}
@@ -768,9 +1163,11 @@ export default function GPUImageProcessingUI() {
                         </div>
                         <div className="text-center p-3 bg-orange-50 rounded-lg">
                           <div className="text-2xl font-bold text-orange-600">
-                            {performanceMetrics.throughput.toFixed(1)}MB/s
+                            {performanceMetrics.imagesPerSecond.toFixed(2)} img/s
+                          </div>
+                          <div className="text-sm text-orange-800">
+                            Throughput · {performanceMetrics.megapixelsPerSecond.toFixed(1)} MP/s
                           </div>
-                          <div className="text-sm text-orange-800">Throughput</div>
                           {isProcessing && (
                             <div className="text-xs text-orange-600 animate-pulse">Real-time</div>
                           )}
@@ -784,6 +1181,12 @@ export default function GPUImageProcessingUI() {
                           <div className="text-sm text-gray-600">Average per Image</div>
                         </div>
                       )}
+                      {stageTimings.length > 0 && (
+                        <div className="mt-4">
+                          <div className="text-sm font-medium text-gray-700 mb-2">Per-stage Breakdown</div>
+                          <StageTimingChart stages={stageTimings} pipeline={pipeline} />
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 </div>
@@ -795,16 +1198,201 @@ export default function GPUImageProcessingUI() {
           <div className="space-y-4">
             <Card>
               <CardHeader>
-                <CardTitle className="flex items-center">
-                  <Settings className="w-5 h-5 mr-2" />
-                  Filter Pipeline
-                </CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle className="flex items-center">
+                    <Settings className="w-5 h-5 mr-2" />
+                    Filter Pipeline
+                  </CardTitle>
+                  <div className="flex items-center space-x-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={undo}
+                      className="h-7 w-7 p-0"
+                      disabled={!canUndo || isProcessing || isExporting}
+                      title="Undo (Ctrl+Z)"
+                    >
+                      <Undo2 className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={redo}
+                      className="h-7 w-7 p-0"
+                      disabled={!canRedo || isProcessing || isExporting}
+                      title="Redo (Ctrl+Shift+Z)"
+                    >
+                      <Redo2 className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => pipelineFileInputRef.current?.click()}
+                      className="h-7 px-2"
+                      disabled={isProcessing || isExporting}
+                      title="Import pipeline from JSON"
+                    >
+                      <FileUp className="w-3 h-3 mr-1" />
+                      Import
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={exportPipeline}
+                      className="h-7 px-2"
+                      disabled={pipeline.length === 0}
+                      title="Export pipeline as JSON"
+                    >
+                      <FileDown className="w-3 h-3 mr-1" />
+                      Export
+                    </Button>
+                  </div>
+                </div>
+                <input
+                  ref={pipelineFileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  onChange={importPipeline}
+                  className="hidden"
+                />
               </CardHeader>
               <CardContent>
+                {pipelineError && (
+                  <Alert variant="destructive" className="mb-3">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertTitle className="flex items-center justify-between">
+                      {pipelineError.message}
+                      <button className="text-xs underline" onClick={() => setPipelineError(null)}>
+                        Dismiss
+                      </button>
+                    </AlertTitle>
+                    {pipelineError.issues.length > 0 && (
+                      <AlertDescription>
+                        <ul className="list-disc pl-4 text-xs space-y-0.5">
+                          {pipelineError.issues.map((issue) => (
+                            <li key={issue}>{issue}</li>
+                          ))}
+                        </ul>
+                      </AlertDescription>
+                    )}
+                  </Alert>
+                )}
+                <div className="flex items-center justify-between mb-3 text-sm">
+                  <span className="text-gray-600">Precision</span>
+                  <Select
+                    value={pipelineSettings.precision}
+                    onValueChange={(precision) =>
+                      applyPipelineSettings(
+                        (prev) => ({ ...prev, precision: precision as RenderPrecision }),
+                        `Precision → ${optionLabel(PRECISION_OPTIONS, precision)}`,
+                      )
+                    }
+                    disabled={isProcessing || isExporting}
+                  >
+                    <SelectTrigger className="h-7 w-40 text-xs" title="Format of intermediate render targets">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRECISION_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value} title={option.description}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between mb-3 text-sm">
+                  <span className="text-gray-600">Working space</span>
+                  <Select
+                    value={pipelineSettings.workingSpace}
+                    onValueChange={(workingSpace) =>
+                      applyPipelineSettings(
+                        (prev) => ({ ...prev, workingSpace: workingSpace as WorkingSpace }),
+                        `Working space → ${optionLabel(WORKING_SPACE_OPTIONS, workingSpace)}`,
+                      )
+                    }
+                    disabled={isProcessing || isExporting}
+                  >
+                    <SelectTrigger className="h-7 w-40 text-xs" title="Color space linear filters process in">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORKING_SPACE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value} title={option.description}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between mb-3 text-sm">
+                  <span className="text-gray-600">Output space</span>
+                  <Select
+                    value={pipelineSettings.outputSpace}
+                    onValueChange={(outputSpace) =>
+                      applyPipelineSettings(
+                        (prev) => ({ ...prev, outputSpace: outputSpace as OutputSpace }),
+                        `Output space → ${optionLabel(OUTPUT_SPACE_OPTIONS, outputSpace)}`,
+                      )
+                    }
+                    disabled={isProcessing || isExporting}
+                  >
+                    <SelectTrigger className="h-7 w-40 text-xs" title="Color space the result is encoded to">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_SPACE_OPTIONS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between mb-3 text-sm">
+                  <span className="text-gray-600">Background</span>
+                  <div className="flex items-center gap-2">
+                    {pipelineSettings.matte && (
+                      <input
+                        type="color"
+                        value={pipelineSettings.matte}
+                        onChange={(event) => {
+                          const matte = event.target.value
+                          // The picker reports every color it passes through, so a pick is one entry
+                          applyPipelineSettings((prev) => ({ ...prev, matte }), `Background → ${matte}`, {
+                            coalesceKey: "settings:matte",
+                          })
+                        }}
+                        disabled={isProcessing || isExporting}
+                        aria-label="Matte color"
+                        className="h-7 w-9 cursor-pointer rounded border border-gray-300 bg-white p-0.5"
+                      />
+                    )}
+                    <Select
+                      value={pipelineSettings.matte ? "matte" : "transparent"}
+                      onValueChange={(value) =>
+                        applyPipelineSettings(
+                          (prev) => ({ ...prev, matte: value === "matte" ? DEFAULT_MATTE_COLOR : null }),
+                          value === "matte" ? "Background → solid color" : "Background → keep transparency",
+                        )
+                      }
+                      disabled={isProcessing || isExporting}
+                    >
+                      <SelectTrigger className="h-7 w-40 text-xs" title="What transparent pixels are flattened onto">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="transparent">Keep transparency</SelectItem>
+                        <SelectItem value="matte">Solid color</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
                 <Tabs defaultValue="pipeline" className="w-full">
-                  <TabsList className="grid w-full grid-cols-2">
+                  <TabsList className="grid w-full grid-cols-3">
                     <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
                     <TabsTrigger value="library">Library</TabsTrigger>
+                    <TabsTrigger value="history">History</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="pipeline" className="space-y-3">
@@ -815,14 +1403,75 @@ export default function GPUImageProcessingUI() {
                         <p className="text-sm">Add filters from the Library tab</p>
                       </div>
                     ) : (
+                      <div className="flex justify-end space-x-1">
+                        <Button
+                          size="sm"
+                          variant={pipelineView === "list" ? "default" : "outline"}
+                          onClick={() => setPipelineView("list")}
+                          className="h-6 px-2 text-xs"
+                        >
+                          <List className="w-3 h-3 mr-1" />
+                          List
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant={pipelineView === "graph" ? "default" : "outline"}
+                          onClick={() => setPipelineView("graph")}
+                          className="h-6 px-2 text-xs"
+                          title="Wire multi-input filters to the original, earlier stages or other images"
+                        >
+                          <Workflow className="w-3 h-3 mr-1" />
+                          Graph
+                        </Button>
+                      </div>
+                    )}
+                    {pipeline.length > 0 && pipelineView === "graph" && (
+                      <PipelineGraph
+                        pipeline={pipeline}
+                        imageNames={Object.keys(auxiliaryImages)}
+                        disabled={isProcessing || isExporting}
+                        onInputChange={updateFilterInput}
+                      />
+                    )}
+                    {pipelineView === "list" && (
                       pipeline.map((filter, index) => (
                         <Card
                           key={filter.id}
-                          className={`${filter.enabled ? "border-blue-200" : "border-gray-200 opacity-60"}`}
+                          className={`${filter.enabled ? "border-blue-200" : "border-gray-200 opacity-60"} ${draggedFilterId === filter.id ? "opacity-40" : ""} ${dropTargetIndex === index && draggedFilterId !== filter.id ? "border-t-4 border-t-blue-500" : ""} ${dropTargetIndex === pipeline.length && index === pipeline.length - 1 ? "border-b-4 border-b-blue-500" : ""}`}
+                          onDragOver={(event) => {
+                            if (!draggedFilterId) return
+                            event.preventDefault()
+                            const rect = event.currentTarget.getBoundingClientRect()
+                            setDropTargetIndex(event.clientY > rect.top + rect.height / 2 ? index + 1 : index)
+                          }}
+                          onDrop={(event) => {
+                            event.preventDefault()
+                            handleFilterDrop(dropTargetIndex ?? index)
+                          }}
                         >
                           <CardContent className="p-3">
                             <div className="flex items-center justify-between mb-2">
                               <div className="flex items-center space-x-2">
+                                <button
+                                  id={`drag-handle-${filter.id}`}
+                                  draggable={!isProcessing && !isExporting}
+                                  onDragStart={(event) => {
+                                    event.dataTransfer.effectAllowed = "move"
+                                    event.dataTransfer.setData("text/plain", filter.id)
+                                    setDraggedFilterId(filter.id)
+                                  }}
+                                  onDragEnd={() => {
+                                    setDraggedFilterId(null)
+                                    setDropTargetIndex(null)
+                                  }}
+                                  onKeyDown={(event) => handleFilterKeyDown(event, filter.id, index)}
+                                  className="cursor-grab text-gray-400 hover:text-gray-700 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-500 rounded"
+                                  aria-label={`Reorder ${filter.name} (drag, or use arrow keys)`}
+                                  title="Drag to reorder, or focus and press ↑/↓"
+                                  disabled={isProcessing || isExporting}
+                                >
+                                  <GripVertical className="w-4 h-4" />
+                                </button>
                                 <span className="text-xs bg-gray-100 px-2 py-1 rounded">{index + 1}</span>
                                 <span className="font-medium text-sm">{filter.name}</span>
                               </div>
@@ -836,6 +1485,16 @@ export default function GPUImageProcessingUI() {
                                 >
                                   {filter.enabled ? "ON" : "OFF"}
                                 </Button>
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => duplicateFilterInPipeline(filter.id)}
+                                  className="h-6 w-6 p-0"
+                                  disabled={isProcessing || isExporting}
+                                  title="Duplicate stage"
+                                >
+                                  <Copy className="w-3 h-3" />
+                                </Button>
                                 <Button
                                   size="sm"
                                   variant="outline"
@@ -859,7 +1518,14 @@ export default function GPUImageProcessingUI() {
                                       </div>
                                       <Slider
                                         value={[value]}
-                                        onValueChange={(newValue) => updateFilterParameter(filter.id, param, newValue[0])}
+                                        onValueChange={(newValue) => {
+                                          setIsAdjusting(true)
+                                          updateFilterParameter(filter.id, param, newValue[0])
+                                        }}
+                                        onValueCommit={() => {
+                                          setIsAdjusting(false)
+                                          sealPipelineEdit()
+                                        }}
                                         max={config.max}
                                         min={config.min}
                                         step={config.step}
@@ -914,6 +1580,34 @@ export default function GPUImageProcessingUI() {
                       </Card>
                     ))}
                   </TabsContent>
+
+                  <TabsContent value="history" className="space-y-1">
+                    <div className="text-xs text-gray-500 mb-2">
+                      Click an entry to return to that pipeline state. Ctrl+Z / Ctrl+Shift+Z step through history.
+                    </div>
+                    {historyEntries.map((entry, index) => (
+                      <button
+                        key={entry.id}
+                        onClick={() => jumpToHistory(index)}
+                        disabled={isProcessing || isExporting}
+                        className={`w-full flex items-center justify-between rounded px-2 py-1.5 text-left text-sm transition-colors ${
+                          index === historyIndex
+                            ? "bg-blue-50 text-blue-900 font-medium"
+                            : index > historyIndex
+                              ? "text-gray-400 hover:bg-gray-50"
+                              : "hover:bg-gray-50"
+                        }`}
+                      >
+                        <span className="flex items-center truncate">
+                          <History className="w-3 h-3 mr-2 flex-shrink-0" />
+                          <span className="truncate">{entry.label}</span>
+                        </span>
+                        <span className="text-xs text-gray-400 ml-2 flex-shrink-0">
+                          {new Date(entry.timestamp).toLocaleTimeString()}
+                        </span>
+                      </button>
+                    ))}
+                  </TabsContent>
                 </Tabs>
               </CardContent>
             </Card>
@@ -0,0 +1,306 @@
+import { WORKING_SPACE_OPTIONS, type WorkingSpace } from "@/lib/gpu/color";
+import type { RenderPrecision } from "@/lib/gpu/formats";
+import type { HeadlessOutputFormat } from "@/lib/gpu/node";
+import { DEFAULT_PIPELINE_SETTINGS, PRECISION_OPTIONS } from "@/lib/pipeline/settings";
+import { DEFAULT_OUTPUT_SIZE_POLICY, parseOutputSizePolicy, type OutputSizePolicy } from "@/lib/pipeline/output-size";
+
+// Bad arguments or configuration, as opposed to an image that failed to process
+export class UsageError extends Error {}
+
+// For failed imports of modules that load the optional native GL binding
+export function headlessUnavailable(error: Error): UsageError {
+  return new UsageError(`Headless rendering is unavailable: the optional "gl" package failed to load\n${error.message.split("\n")[0]}`);
+}
+
+export const EXIT_OK = 0;
+// Some images or cases failed; the rest were still processed
+export const EXIT_FAILED = 1;
+// Nothing was processed: bad arguments, pipeline or inputs
+export const EXIT_USAGE = 2;
+
+export interface RunArgs {
+  pipelinePath: string;
+  // Files, directories (searched recursively) or glob patterns
+  inputs: string[];
+  outDir: string;
+  format: HeadlessOutputFormat;
+  quality: number;
+  concurrency: number;
+  outputSize: OutputSizePolicy;
+  // Files for filter inputs wired to { type: "image" }, by image name
+  images: { [name: string]: string };
+  // Where to write the JSON summary; stdout when null
+  summaryPath: string | null;
+}
+
+export const RUN_USAGE = `Usage: piper run <pipeline.json> --in <path|glob>... --out <dir> [options]
+
+Options:
+  --in <path|glob>      Input file, directory or glob such as "raw/**/*.jpg" (repeatable)
+  --out <dir>           Output directory; the input folder structure is mirrored
+  --format <png|jpeg|webp>
+                        Output format (default: png); webp needs the optional sharp package
+  --quality <1-100>     JPEG and WebP quality (default: 90)
+  --concurrency <n>     Images in flight, each with its own GL context (default: 1)
+  --size <policy>       original, fit:WxH, exact:WxH or scale:PERCENT (default: original)
+  --image <name=path>   File for filter inputs wired to the loaded image <name> (repeatable)
+  --summary <file>      Write the JSON summary to a file instead of stdout
+`;
+
+export interface CompareArgs {
+  // Filter definition ids; every registered filter when empty
+  filters: string[];
+  // PNG or JPEG to render; a generated test pattern when null
+  inputPath: string | null;
+  // Render size; the input's own size (or 256x256 for the test pattern) when null
+  size: { width: number; height: number } | null;
+  // Cases below this PSNR, in dB, fail
+  minPsnr: number;
+  workingSpace: WorkingSpace;
+  precision: RenderPrecision;
+  summaryPath: string | null;
+}
+
+export const COMPARE_USAGE = `Usage: piper compare [options]
+
+Renders every filter on the GPU (headless) and with its CPU reference implementation, at its default
+parameters and at each parameter's minimum and maximum, and reports the difference.
+
+Options:
+  --filter <id>           Only compare this filter (repeatable)
+  --input <file>          PNG or JPEG to render (default: a generated test pattern)
+  --size <WxH>            Render size (default: the input's size, or 256x256)
+  --min-psnr <dB>         Fail cases below this PSNR (default: 40)
+  --working-space <name>  ${WORKING_SPACE_OPTIONS.map((option) => option.value).join(", ")} (default: ${DEFAULT_PIPELINE_SETTINGS.workingSpace})
+  --precision <name>      ${PRECISION_OPTIONS.map((option) => option.value).join(", ")} (default: float)
+  --summary <file>        Write the JSON summary to a file instead of stdout
+`;
+
+// "all" runs every backend that can load here: the CPU reference always, the shaders where headless-gl does
+export type GoldenBackend = "cpu" | "headless" | "all";
+
+export interface GoldenArgs {
+  // Holds pipelines/, fixtures/ and expected/
+  dir: string;
+  backend: GoldenBackend;
+  // Rewrite the goldens from the current output instead of checking against them
+  update: boolean;
+  // Largest per-channel difference, in 8-bit steps, that still counts as matching
+  tolerance: number;
+  // Share of pixels, in percent, allowed to exceed the tolerance
+  outliers: number;
+  // Only cases whose "<fixture>/<case>" name contains one of these
+  only: string[];
+  // Where actual outputs and heatmaps of failed cases go
+  diffDir: string;
+  summaryPath: string | null;
+}
+
+export const GOLDEN_USAGE = `Usage: piper golden [options]
+
+Renders every registered filter and every pipeline in <dir>/pipelines on each fixture (a generated
+test pattern plus any image in <dir>/fixtures) and compares the results with <dir>/expected.
+
+Options:
+  --dir <dir>           Golden directory (default: golden)
+  --backend <name>      cpu (reference implementations, no GPU needed), headless (the shaders, through
+                        headless-gl) or all: both, skipping headless where gl cannot load (default: all)
+  --update              Regenerate the goldens from the first backend that renders each case; the other
+                        backends are checked against them
+  --tolerance <steps>   Per-channel difference that still matches, 0-255 (default: 3)
+  --outliers <percent>  Share of pixels allowed beyond the tolerance (default: 1)
+  --only <text>         Only run cases whose fixture/case name contains <text> (repeatable)
+  --diff-dir <dir>      Actual outputs and diff heatmaps of failed cases (default: <dir>/diff)
+  --summary <file>      Write the JSON summary to a file instead of stdout
+`;
+
+function parseFormat(value: string): HeadlessOutputFormat {
+  switch (value.toLowerCase()) {
+    case "png":
+      return "png";
+    case "jpg":
+    case "jpeg":
+      return "jpeg";
+    case "webp":
+      return "webp";
+    default:
+      throw new UsageError(`Unsupported --format "${value}": the headless encoder writes png, jpeg or webp`);
+  }
+}
+
+interface ParsedFlags {
+  positional: string[];
+  // Every value of a repeatable flag
+  all(flag: string): string[];
+  // The value of a flag that may be given at most once
+  single(flag: string): string | undefined;
+  // Whether a switch (a flag without a value) was given
+  has(flag: string): boolean;
+}
+
+// Accepts both "--flag value" and "--flag=value"; rejects flags not in `known` or `switches`
+export function parseFlags(argv: string[], known: string[], switches: string[] = []): ParsedFlags {
+  const positional: string[] = [];
+  const values = new Map<string, string[]>();
+  const given = new Set<string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) {
+      positional.push(arg);
+      continue;
+    }
+    if (switches.includes(arg)) {
+      given.add(arg);
+      continue;
+    }
+    const equals = arg.indexOf("=");
+    const flag = equals === -1 ? arg : arg.slice(0, equals);
+    if (!known.includes(flag)) throw new UsageError(`Unknown option ${flag}`);
+    const value = equals === -1 ? argv[++i] : arg.slice(equals + 1);
+    if (value === undefined) throw new UsageError(`${flag} needs a value`);
+    values.set(flag, [...(values.get(flag) ?? []), value]);
+  }
+
+  return {
+    positional,
+    all: (flag) => values.get(flag) ?? [],
+    single: (flag) => {
+      const flagValues = values.get(flag);
+      if (flagValues && flagValues.length > 1) throw new UsageError(`${flag} can only be given once`);
+      return flagValues?.[0];
+    },
+    has: (flag) => given.has(flag),
+  };
+}
+
+export function parseInteger(flag: string, value: string, min: number, max: number): number {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < min || number > max) {
+    throw new UsageError(`${flag} must be an integer from ${min} to ${max}, got "${value}"`);
+  }
+  return number;
+}
+
+export function parseRunArgs(argv: string[]): RunArgs {
+  const { positional, all, single } = parseFlags(argv, [
+    "--in",
+    "--out",
+    "--format",
+    "--quality",
+    "--concurrency",
+    "--size",
+    "--image",
+    "--summary",
+  ]);
+
+  if (positional.length !== 1) throw new UsageError("Expected exactly one pipeline file");
+  const inputs = all("--in");
+  if (inputs.length === 0) throw new UsageError("No inputs: pass at least one --in");
+  const outDir = single("--out");
+  if (!outDir) throw new UsageError("No output directory: pass --out");
+
+  const images: { [name: string]: string } = {};
+  all("--image").forEach((entry) => {
+    const equals = entry.indexOf("=");
+    if (equals <= 0 || equals === entry.length - 1) throw new UsageError(`--image expects name=path, got "${entry}"`);
+    images[entry.slice(0, equals)] = entry.slice(equals + 1);
+  });
+
+  let outputSize = DEFAULT_OUTPUT_SIZE_POLICY;
+  const size = single("--size");
+  if (size) {
+    try {
+      outputSize = parseOutputSizePolicy(size);
+    } catch (error) {
+      throw new UsageError((error as Error).message);
+    }
+  }
+
+  const format = single("--format");
+  const quality = single("--quality");
+  const concurrency = single("--concurrency");
+  return {
+    pipelinePath: positional[0],
+    inputs,
+    outDir,
+    format: format ? parseFormat(format) : "png",
+    quality: quality ? parseInteger("--quality", quality, 1, 100) : 90,
+    concurrency: concurrency ? parseInteger("--concurrency", concurrency, 1, 64) : 1,
+    outputSize,
+    images,
+    summaryPath: single("--summary") ?? null,
+  };
+}
+
+function parseChoice<T extends string>(flag: string, value: string, options: { value: T }[]): T {
+  const option = options.find((candidate) => candidate.value === value);
+  if (!option) throw new UsageError(`${flag} must be one of ${options.map((candidate) => candidate.value).join(", ")}`);
+  return option.value;
+}
+
+export function parseCompareArgs(argv: string[]): CompareArgs {
+  const { positional, all, single } = parseFlags(argv, [
+    "--filter",
+    "--input",
+    "--size",
+    "--min-psnr",
+    "--working-space",
+    "--precision",
+    "--summary",
+  ]);
+  if (positional.length > 0) throw new UsageError(`Unexpected argument "${positional[0]}"`);
+
+  let size: CompareArgs["size"] = null;
+  const sizeText = single("--size");
+  if (sizeText) {
+    const match = /^(\d+)x(\d+)$/.exec(sizeText);
+    if (!match) throw new UsageError(`--size expects WxH, got "${sizeText}"`);
+    size = { width: parseInteger("--size", match[1], 1, 16384), height: parseInteger("--size", match[2], 1, 16384) };
+  }
+
+  const minPsnrText = single("--min-psnr");
+  const minPsnr = minPsnrText === undefined ? 40 : Number(minPsnrText);
+  if (!Number.isFinite(minPsnr) || minPsnr <= 0) throw new UsageError(`--min-psnr must be a positive number, got "${minPsnrText}"`);
+
+  const workingSpace = single("--working-space");
+  const precision = single("--precision");
+  return {
+    filters: all("--filter"),
+    inputPath: single("--input") ?? null,
+    size,
+    minPsnr,
+    workingSpace: workingSpace
+      ? parseChoice("--working-space", workingSpace, WORKING_SPACE_OPTIONS)
+      : DEFAULT_PIPELINE_SETTINGS.workingSpace,
+    precision: precision ? parseChoice("--precision", precision, PRECISION_OPTIONS) : "float",
+    summaryPath: single("--summary") ?? null,
+  };
+}
+
+export function parseGoldenArgs(argv: string[]): GoldenArgs {
+  const { positional, all, single, has } = parseFlags(
+    argv,
+    ["--dir", "--backend", "--tolerance", "--outliers", "--only", "--diff-dir", "--summary"],
+    ["--update"]
+  );
+  if (positional.length > 0) throw new UsageError(`Unexpected argument "${positional[0]}"`);
+
+  const outliersText = single("--outliers");
+  const outliers = outliersText === undefined ? 1 : Number(outliersText);
+  if (!Number.isFinite(outliers) || outliers < 0 || outliers > 100) {
+    throw new UsageError(`--outliers must be a percentage from 0 to 100, got "${outliersText}"`);
+  }
+
+  const dir = single("--dir") ?? "golden";
+  const tolerance = single("--tolerance");
+  return {
+    dir,
+    backend: parseChoice("--backend", single("--backend") ?? "all", [{ value: "cpu" }, { value: "headless" }, { value: "all" }]),
+    update: has("--update"),
+    tolerance: tolerance ? parseInteger("--tolerance", tolerance, 0, 255) : 3,
+    outliers,
+    only: all("--only"),
+    diffDir: single("--diff-dir") ?? `${dir}/diff`,
+    summaryPath: single("--summary") ?? null,
+  };
+}
@@ -0,0 +1,142 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { compareImages, type ImageDifference } from "@/lib/gpu/compare";
+import { decodeImage } from "@/lib/gpu/codecs";
+import { failedResult, rawImageSource, renderImage } from "@/lib/gpu/engine";
+import { filterRegistry, toFilterTemplate, type FilterDefinition } from "@/lib/gpu/filters/registry";
+import { sampleRawImage, type RawImage } from "@/lib/gpu/image";
+import { createHeadlessProcessor } from "@/lib/gpu/node";
+import { renderReferenceImage } from "@/lib/gpu/reference";
+import type { WebGLProcessor } from "@/lib/gpu/WebGLProcessor";
+import { instantiateFilter } from "@/lib/pipeline/document";
+import { EXIT_FAILED, EXIT_OK, UsageError, type CompareArgs } from "./args";
+import { createTestPattern } from "./pattern";
+
+const DEFAULT_PATTERN_SIZE = 256;
+const SOURCE_KEY = "compare:source";
+
+export interface CompareCase {
+  filter: string;
+  // Parameters that differ from the defaults
+  variant: { [param: string]: number };
+  passed: boolean;
+  // null when either render failed
+  difference: ImageDifference | null;
+  precision?: string;
+  error?: string;
+}
+
+export interface CompareSummary {
+  input: string;
+  width: number;
+  height: number;
+  workingSpace: string;
+  minPsnr: number;
+  total: number;
+  failed: number;
+  // Filters without a CPU reference implementation, which cannot be checked
+  unverified: string[];
+  cases: CompareCase[];
+}
+
+// The defaults, then each parameter at its minimum and maximum
+function parameterVariants(definition: FilterDefinition): { [param: string]: number }[] {
+  const variants: { [param: string]: number }[] = [{}];
+  Object.entries(definition.params).forEach(([param, config]) => {
+    [config.min, config.max]
+      .filter((value) => value !== config.default)
+      .forEach((value) => variants.push({ [param]: value }));
+  });
+  return variants;
+}
+
+async function compareCase(
+  processor: WebGLProcessor,
+  source: RawImage,
+  definition: FilterDefinition,
+  variant: { [param: string]: number },
+  args: CompareArgs
+): Promise<CompareCase> {
+  const pipeline = [instantiateFilter(toFilterTemplate(definition), variant)];
+  const { width, height } = source;
+  try {
+    const { result, pixels } = await renderImage(processor, async () => rawImageSource(source), SOURCE_KEY, pipeline, width, height, {
+      precision: args.precision,
+      workingSpace: args.workingSpace,
+      outputSpace: "srgb",
+    });
+    const expected = renderReferenceImage(pipeline, source, width, height, { workingSpace: args.workingSpace, outputSpace: "srgb" });
+    const difference = compareImages(pixels, expected);
+    return { filter: definition.id, variant, passed: difference.psnr >= args.minPsnr, difference, precision: result.precision };
+  } catch (error) {
+    return { filter: definition.id, variant, passed: false, difference: null, error: failedResult(error).error };
+  }
+}
+
+function describeCase(item: CompareCase): string {
+  const variant = Object.entries(item.variant).map(([param, value]) => `${param}=${value}`).join(" ") || "defaults";
+  const label = `${item.filter} (${variant})`.padEnd(36);
+  if (!item.difference) return `FAIL ${label} ${item.error ?? "render failed"}`;
+  const { maxError, meanError, psnr } = item.difference;
+  return `${item.passed ? "ok  " : "FAIL"} ${label} max ${String(maxError).padStart(3)}  mean ${meanError.toFixed(3)}  PSNR ${
+    psnr === Infinity ? "inf" : psnr.toFixed(1)
+  } dB`;
+}
+
+// Renders every case on both backends. Errors are in 8-bit steps over all four channels.
+export async function compareCommand(args: CompareArgs): Promise<number> {
+  let source = args.inputPath
+    ? decodeImage(new Uint8Array(await readFile(args.inputPath).catch(() => {
+        throw new UsageError(`Cannot read --input ${args.inputPath}`);
+      })))
+    : createTestPattern(args.size?.width ?? DEFAULT_PATTERN_SIZE, args.size?.height ?? DEFAULT_PATTERN_SIZE);
+  if (args.size && (args.size.width !== source.width || args.size.height !== source.height)) {
+    source = sampleRawImage(source, { x: 0, y: 0, ...args.size }, args.size.width, args.size.height);
+  }
+
+  const definitions = args.filters.length > 0
+    ? args.filters.map((id) => {
+        const definition = filterRegistry.get(id);
+        if (!definition) throw new UsageError(`Unknown filter "${id}"`);
+        return definition;
+      })
+    : filterRegistry.list();
+
+  const processor = createHeadlessProcessor();
+  const cases: CompareCase[] = [];
+  const unverified: string[] = [];
+  try {
+    for (const definition of definitions) {
+      if (!definition.reference) {
+        unverified.push(definition.id);
+        process.stderr.write(`skip ${definition.id}: no CPU reference implementation\n`);
+        continue;
+      }
+      for (const variant of parameterVariants(definition)) {
+        const item = await compareCase(processor, source, definition, variant, args);
+        cases.push(item);
+        process.stderr.write(describeCase(item) + "\n");
+      }
+    }
+  } finally {
+    processor.destroy();
+  }
+
+  const failed = cases.filter((item) => !item.passed).length;
+  const summary: CompareSummary = {
+    input: args.inputPath ?? "test pattern",
+    width: source.width,
+    height: source.height,
+    workingSpace: args.workingSpace,
+    minPsnr: args.minPsnr,
+    total: cases.length,
+    failed,
+    unverified,
+    cases,
+  };
+  const json = JSON.stringify(summary, (_, value) => (value === Infinity ? "Infinity" : value), 2) + "\n";
+  if (args.summaryPath) await writeFile(args.summaryPath, json);
+  else process.stdout.write(json);
+
+  process.stderr.write(`${cases.length - failed} of ${cases.length} cases within ${args.minPsnr} dB PSNR\n`);
+  return failed > 0 ? EXIT_FAILED : EXIT_OK;
+}
@@ -0,0 +1,271 @@
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { decodeImage, encodeImagePng } from "@/lib/gpu/codecs";
+import { compareImages, differenceHeatmap, type ImageDifference } from "@/lib/gpu/compare";
+import { rawImageSource, renderImage } from "@/lib/gpu/engine";
+import { filterRegistry, toFilterTemplate } from "@/lib/gpu/filters/registry";
+import type { RawImage } from "@/lib/gpu/image";
+import { renderReferenceImage } from "@/lib/gpu/reference";
+import type { Filter } from "@/lib/gpu/ReglSurface";
+import { PipelineDocumentError, instantiateFilter, parsePipelineJson } from "@/lib/pipeline/document";
+import { DEFAULT_PIPELINE_SETTINGS, type PipelineSettings } from "@/lib/pipeline/settings";
+import { EXIT_FAILED, EXIT_OK, UsageError, headlessUnavailable, type GoldenArgs, type GoldenBackend } from "./args";
+import { createTestPattern } from "./pattern";
+
+// Golden-image regression runner. Goldens are plain PNGs under <dir>/expected/<fixture>/<case>.png,
+// written by --update and reviewed like any other change. Every backend is checked against the same
+// goldens, so a run with both is also a parity check between the shaders and the CPU reference.
+
+const PATTERN_SIZE = 96;
+
+interface Fixture {
+  name: string;
+  image: RawImage;
+}
+
+interface GoldenCase {
+  name: string;
+  pipeline: Filter[];
+  settings: PipelineSettings;
+}
+
+type RendererName = Exclude<GoldenBackend, "all">;
+
+interface GoldenRenderer {
+  name: RendererName;
+  render(fixture: Fixture, goldenCase: GoldenCase): Promise<RawImage>;
+  destroy(): void;
+}
+
+export type GoldenStatus = "passed" | "failed" | "missing" | "updated" | "skipped" | "error";
+
+export interface GoldenResult {
+  name: string;
+  backend: RendererName;
+  status: GoldenStatus;
+  difference?: ImageDifference;
+  // Actual output and heatmap, for failed cases
+  diffFiles?: string[];
+  error?: string;
+}
+
+export interface GoldenSummary {
+  // Backends that ran, and why headless did not when it was skipped
+  backends: RendererName[];
+  headlessUnavailable?: string;
+  tolerance: number;
+  outliers: number;
+  total: number;
+  failed: number;
+  results: GoldenResult[];
+}
+
+function isImageFile(file: string): boolean {
+  return /\.(png|jpe?g)$/i.test(file);
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  return (await readdir(dir).catch(() => [] as string[])).sort();
+}
+
+async function loadFixtures(dir: string): Promise<Fixture[]> {
+  const fixtures: Fixture[] = [{ name: "pattern", image: createTestPattern(PATTERN_SIZE, PATTERN_SIZE) }];
+  const fixtureDir = path.join(dir, "fixtures");
+  for (const file of (await listFiles(fixtureDir)).filter(isImageFile)) {
+    fixtures.push({
+      name: path.basename(file, path.extname(file)),
+      image: decodeImage(new Uint8Array(await readFile(path.join(fixtureDir, file)))),
+    });
+  }
+  return fixtures;
+}
+
+// Every registered filter on its own at its defaults, then the canned pipelines
+async function loadCases(dir: string): Promise<GoldenCase[]> {
+  const cases: GoldenCase[] = filterRegistry.list().map((definition) => ({
+    name: `filter-${definition.id}`,
+    pipeline: [instantiateFilter(toFilterTemplate(definition))],
+    settings: DEFAULT_PIPELINE_SETTINGS,
+  }));
+
+  const pipelineDir = path.join(dir, "pipelines");
+  for (const file of (await listFiles(pipelineDir)).filter((file) => file.endsWith(".json"))) {
+    const json = await readFile(path.join(pipelineDir, file), "utf8");
+    try {
+      const { filters, settings } = parsePipelineJson(json, filterRegistry.templates());
+      cases.push({ name: `pipeline-${path.basename(file, ".json")}`, pipeline: filters, settings });
+    } catch (error) {
+      if (!(error instanceof PipelineDocumentError)) throw error;
+      throw new UsageError([`${file}: ${error.message}`, ...error.issues.map((issue) => `  ${issue}`)].join("\n"));
+    }
+  }
+  return cases;
+}
+
+function createCpuRenderer(): GoldenRenderer {
+  return {
+    name: "cpu",
+    async render({ image }, { pipeline, settings }) {
+      return renderReferenceImage(pipeline, image, image.width, image.height, settings);
+    },
+    destroy() {},
+  };
+}
+
+// Imported on demand so the CPU backend works without the native GL module
+async function createHeadlessRenderer(): Promise<GoldenRenderer> {
+  const { createHeadlessProcessor } = await import("@/lib/gpu/node").catch((error: Error) => {
+    throw headlessUnavailable(error);
+  });
+  const processor = createHeadlessProcessor();
+  return {
+    name: "headless",
+    async render(fixture, { pipeline, settings }) {
+      const { width, height } = fixture.image;
+      const load = async () => rawImageSource(fixture.image);
+      return (await renderImage(processor, load, `golden:${fixture.name}`, pipeline, width, height, settings)).pixels;
+    },
+    destroy() {
+      processor.destroy();
+    },
+  };
+}
+
+// Filters without a reference implementation cannot be rendered on the CPU
+function isSupported(backend: RendererName, { pipeline }: GoldenCase): boolean {
+  return backend !== "cpu" || pipeline.every((filter) => !filter.enabled || filterRegistry.resolve(filter.id).reference);
+}
+
+async function writePng(file: string, image: RawImage) {
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, encodeImagePng(image));
+}
+
+// `written` holds the goldens this run has already updated, which later backends are checked against
+async function runCase(
+  args: GoldenArgs,
+  renderer: GoldenRenderer,
+  fixture: Fixture,
+  goldenCase: GoldenCase,
+  written: Set<string>
+): Promise<GoldenResult> {
+  const name = `${fixture.name}/${goldenCase.name}`;
+  const backend = renderer.name;
+  if (!isSupported(backend, goldenCase)) return { name, backend, status: "skipped" };
+
+  const goldenFile = path.join(args.dir, "expected", fixture.name, `${goldenCase.name}.png`);
+  let actual: RawImage;
+  try {
+    actual = await renderer.render(fixture, goldenCase);
+  } catch (error) {
+    return { name, backend, status: "error", error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (args.update && !written.has(goldenFile)) {
+    await writePng(goldenFile, actual);
+    written.add(goldenFile);
+    return { name, backend, status: "updated" };
+  }
+
+  const bytes = await readFile(goldenFile).catch(() => null);
+  if (!bytes) return { name, backend, status: "missing", error: `${goldenFile} does not exist; run with --update` };
+
+  const expected = decodeImage(new Uint8Array(bytes));
+  if (expected.width !== actual.width || expected.height !== actual.height) {
+    return { name, backend, status: "failed", error: `expected ${expected.width}x${expected.height}, got ${actual.width}x${actual.height}` };
+  }
+  const difference = compareImages(actual, expected, args.tolerance);
+  if (difference.differingPixels <= (actual.width * actual.height * args.outliers) / 100) {
+    return { name, backend, status: "passed", difference };
+  }
+
+  const base = path.join(args.diffDir, backend, fixture.name, goldenCase.name);
+  const diffFiles = [`${base}.actual.png`, `${base}.diff.png`];
+  await writePng(diffFiles[0], actual);
+  await writePng(diffFiles[1], differenceHeatmap(actual, expected));
+  return { name, backend, status: "failed", difference, diffFiles };
+}
+
+function describeResult(result: GoldenResult): string {
+  const label = result.name.padEnd(40);
+  const { difference } = result;
+  const detail = difference
+    ? `max ${difference.maxError}, ${difference.differingPixels} px beyond tolerance, PSNR ${
+        difference.psnr === Infinity ? "inf" : difference.psnr.toFixed(1)
+      } dB`
+    : result.error ?? "";
+  return `${result.status.padEnd(7)} ${result.backend.padEnd(8)} ${label} ${detail}`.trimEnd();
+}
+
+interface GoldenRenderers {
+  renderers: GoldenRenderer[];
+  headlessUnavailable?: string;
+}
+
+// With "all", a missing or unusable headless-gl skips the shaders instead of failing the run
+async function createRenderers(backend: GoldenBackend): Promise<GoldenRenderers> {
+  if (backend === "cpu") return { renderers: [createCpuRenderer()] };
+  if (backend === "headless") return { renderers: [await createHeadlessRenderer()] };
+  try {
+    return { renderers: [createCpuRenderer(), await createHeadlessRenderer()] };
+  } catch (error) {
+    return {
+      renderers: [createCpuRenderer()],
+      headlessUnavailable: (error instanceof Error ? error.message : String(error)).split("\n").join(": "),
+    };
+  }
+}
+
+export async function goldenCommand(args: GoldenArgs): Promise<number> {
+  const fixtures = await loadFixtures(args.dir);
+  const cases = await loadCases(args.dir);
+  const selected = fixtures.flatMap((fixture) =>
+    cases
+      .filter((goldenCase) => args.only.length === 0 || args.only.some((text) => `${fixture.name}/${goldenCase.name}`.includes(text)))
+      .map((goldenCase) => ({ fixture, goldenCase }))
+  );
+  if (selected.length === 0) throw new UsageError(`No golden cases match ${args.only.join(", ")}`);
+
+  // Heatmaps from earlier runs would be mistaken for current failures
+  if (!args.update) await rm(args.diffDir, { recursive: true, force: true });
+
+  const { renderers, headlessUnavailable } = await createRenderers(args.backend);
+  if (headlessUnavailable) {
+    process.stderr.write(`Skipping the headless backend, so the shaders are not checked: ${headlessUnavailable}\n`);
+  }
+  const results: GoldenResult[] = [];
+  const written = new Set<string>();
+  try {
+    for (const { fixture, goldenCase } of selected) {
+      for (const renderer of renderers) {
+        const result = await runCase(args, renderer, fixture, goldenCase, written);
+        results.push(result);
+        process.stderr.write(describeResult(result) + "\n");
+      }
+    }
+  } finally {
+    renderers.forEach((renderer) => renderer.destroy());
+  }
+
+  const failed = results.filter((result) => ["failed", "missing", "error"].includes(result.status)).length;
+  const summary: GoldenSummary = {
+    backends: renderers.map((renderer) => renderer.name),
+    headlessUnavailable,
+    tolerance: args.tolerance,
+    outliers: args.outliers,
+    total: results.length,
+    failed,
+    results,
+  };
+  const json = JSON.stringify(summary, (_, value) => (value === Infinity ? "Infinity" : value), 2) + "\n";
+  if (args.summaryPath) await writeFile(args.summaryPath, json);
+  else process.stdout.write(json);
+
+  const count = (status: GoldenStatus) => results.filter((result) => result.status === status).length;
+  if (args.update) process.stderr.write(`Updated ${count("updated")} goldens in ${path.join(args.dir, "expected")}\n`);
+  // Under --update, only backends after the first one are checked
+  if (!args.update || count("updated") < results.length) {
+    process.stderr.write(`${count("passed")} passed, ${failed} failed, ${count("skipped")} skipped\n`);
+  }
+  return failed > 0 ? EXIT_FAILED : EXIT_OK;
+}
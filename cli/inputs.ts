@@ -0,0 +1,96 @@
+import { readdir, stat } from "node:fs/promises";
+import path from "node:path";
+
+export interface InputFile {
+  path: string;
+  // Path under the directory or glob base it was found in; mirrored in the output directory
+  relativePath: string;
+}
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg"]);
+const GLOB_CHARS = /[*?{[]/;
+
+function isImage(file: string): boolean {
+  return IMAGE_EXTENSIONS.has(path.extname(file).toLowerCase());
+}
+
+async function walk(directory: string): Promise<string[]> {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const full = path.join(directory, entry.name);
+      if (entry.isDirectory()) return walk(full);
+      return entry.isFile() ? [full] : [];
+    })
+  );
+  return files.flat();
+}
+
+// Supports *, ?, ** (any number of directories), [abc] and {a,b}; paths use "/" separators
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const end = pattern.indexOf("]", i);
+      if (end === -1) {
+        source += "\\[";
+      } else {
+        source += `[${pattern.slice(i + 1, end).replace(/\\/g, "\\\\")}]`;
+        i = end;
+      }
+    } else if (char === "{") {
+      const end = pattern.indexOf("}", i);
+      if (end === -1) {
+        source += "\\{";
+      } else {
+        const options = pattern.slice(i + 1, end).split(",").map((option) => globToRegExp(option).source.slice(1, -1));
+        source += `(?:${options.join("|")})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^$()|\\\]]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Expands files, directories and globs into PNG/JPEG files, without duplicates, in a stable order
+export async function expandInputs(patterns: string[]): Promise<InputFile[]> {
+  const found = new Map<string, InputFile>();
+  const add = (file: string, base: string) => {
+    const resolved = path.resolve(file);
+    if (!found.has(resolved)) found.set(resolved, { path: file, relativePath: path.relative(base, file) });
+  };
+
+  for (const pattern of patterns) {
+    const info = await stat(pattern).catch(() => null);
+    if (info?.isFile()) {
+      add(pattern, path.dirname(pattern));
+    } else if (info?.isDirectory()) {
+      (await walk(pattern)).filter(isImage).forEach((file) => add(file, pattern));
+    } else if (GLOB_CHARS.test(pattern)) {
+      // Walk from the deepest directory without glob characters
+      const segments = pattern.split(/[\\/]/);
+      const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+      const base = segments.slice(0, firstGlob).join("/") || ".";
+      const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+      const files = await walk(base).catch(() => []);
+      files
+        .filter((file) => isImage(file) && matcher.test(path.relative(base, file).split(path.sep).join("/")))
+        .forEach((file) => add(file, base));
+    } else {
+      throw new Error(`Input "${pattern}" does not exist`);
+    }
+  }
+
+  return Array.from(found.values()).sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,45 @@
+import { createRawImage, type RawImage } from "@/lib/gpu/image";
+
+// Deterministic synthetic image that exercises every filter: smooth gradients, hard edges, fine noise
+// and a corner that fades to fully transparent, so alpha weighting is covered too.
+export function createTestPattern(width: number, height: number): RawImage {
+  const image = createRawImage(width, height);
+  // Small LCG so the noise is the same on every machine
+  let seed = 0x2545f491;
+  const random = () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 2 ** 32;
+  };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const u = x / Math.max(1, width - 1);
+      const v = y / Math.max(1, height - 1);
+      let rgb: number[];
+      if (v < 0.25) {
+        // Hue sweep
+        rgb = [0, 2, 4].map((offset) => 0.5 + 0.5 * Math.cos(2 * Math.PI * (u + offset / 6)));
+      } else if (v < 0.5) {
+        // Gray ramp
+        rgb = [u, u, u];
+      } else if (v < 0.75) {
+        // Checkerboard with sharp color edges
+        const checker = (Math.floor(x / 8) + Math.floor(y / 8)) % 2 === 0;
+        rgb = checker ? [0.9, 0.2, 0.1] : [0.1, 0.3, 0.8];
+      } else {
+        // Noise around mid gray
+        rgb = [0, 1, 2].map(() => 0.5 + (random() - 0.5) * 0.6);
+      }
+
+      // Alpha fades out towards the bottom-right corner and is fully transparent in it
+      const distance = Math.hypot(1 - u, 1 - v);
+      const alpha = Math.min(1, Math.max(0, (distance - 0.15) / 0.25));
+      const at = (y * width + x) * 4;
+      image.data[at] = Math.round(rgb[0] * 255);
+      image.data[at + 1] = Math.round(rgb[1] * 255);
+      image.data[at + 2] = Math.round(rgb[2] * 255);
+      image.data[at + 3] = Math.round(alpha * 255);
+    }
+  }
+  return image;
+}
@@ -0,0 +1,95 @@
+import {
+  COMPARE_USAGE,
+  EXIT_OK,
+  EXIT_USAGE,
+  GOLDEN_USAGE,
+  RUN_USAGE,
+  UsageError,
+  headlessUnavailable,
+  parseCompareArgs,
+  parseGoldenArgs,
+  parseRunArgs,
+} from "./args";
+
+const USAGE = `Usage: piper <command> [options]
+
+Commands:
+  run       Apply a saved pipeline to files, folders or globs of images
+  compare   Check every filter's shader against its CPU reference implementation
+  golden    Check filters and canned pipelines against checked-in golden images
+
+Run "piper <command> --help" for the options of a command.
+`;
+
+interface Command {
+  usage: string;
+  // Parses the arguments, then loads and runs the command. Commands are loaded after argument
+  // parsing so --help and usage errors work without the native GL module.
+  run(argv: string[]): Promise<number>;
+}
+
+async function loadCommand<T>(load: () => Promise<T>): Promise<T> {
+  return load().catch((error: Error) => {
+    throw headlessUnavailable(error);
+  });
+}
+
+const COMMANDS: { [name: string]: Command } = {
+  run: {
+    usage: RUN_USAGE,
+    async run(argv) {
+      const args = parseRunArgs(argv);
+      const { runCommand } = await loadCommand(() => import("./run"));
+      return runCommand(args);
+    },
+  },
+  compare: {
+    usage: COMPARE_USAGE,
+    async run(argv) {
+      const args = parseCompareArgs(argv);
+      const { compareCommand } = await loadCommand(() => import("./compare"));
+      return compareCommand(args);
+    },
+  },
+  golden: {
+    usage: GOLDEN_USAGE,
+    async run(argv) {
+      const args = parseGoldenArgs(argv);
+      // Needs GL only for --backend headless, which it loads itself
+      const { goldenCommand } = await import("./golden");
+      return goldenCommand(args);
+    },
+  },
+};
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...rest] = argv;
+  if (!name || name === "--help" || name === "-h") {
+    process.stdout.write(USAGE);
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+  const command = COMMANDS[name];
+  if (!command) throw new UsageError(`Unknown command "${name}"\n\n${USAGE}`);
+  if (rest.includes("--help") || rest.includes("-h")) {
+    process.stdout.write(command.usage);
+    return EXIT_OK;
+  }
+  return command.run(rest);
+}
+
+// stdout is reserved for the JSON summary; engine diagnostics go to stderr
+console.log = console.error;
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    if (error instanceof UsageError) {
+      process.stderr.write(`piper: ${error.message}\n`);
+    } else {
+      process.stderr.write(`piper: ${error instanceof Error ? error.stack ?? error.message : String(error)}\n`);
+    }
+    process.exitCode = EXIT_USAGE;
+  }
+);
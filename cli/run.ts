@@ -0,0 +1,169 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { filterRegistry } from "@/lib/gpu/filters/registry";
+import { ProcessorPool } from "@/lib/gpu/ProcessorPool";
+import { createHeadlessProcessor, processImageBuffer } from "@/lib/gpu/node";
+import { PipelineDocumentError, parsePipelineJson, type ParsedPipeline } from "@/lib/pipeline/document";
+import { describeOutputSizePolicy } from "@/lib/pipeline/output-size";
+import { EXIT_FAILED, EXIT_OK, UsageError, type RunArgs } from "./args";
+import { expandInputs, type InputFile } from "./inputs";
+
+export interface ImageSummary {
+  input: string;
+  output: string | null;
+  success: boolean;
+  width: number;
+  height: number;
+  tiles: number;
+  gpuTimeMs: number;
+  totalTimeMs: number;
+  stages: { filterId: string; shader: string; gpuTimeMs: number; wallTimeMs: number; passes: number }[];
+  error?: string;
+}
+
+export interface RunSummary {
+  pipeline: string;
+  format: string;
+  outputSize: string;
+  concurrency: number;
+  total: number;
+  succeeded: number;
+  failed: number;
+  elapsedMs: number;
+  images: ImageSummary[];
+}
+
+async function loadPipeline(file: string): Promise<ParsedPipeline> {
+  const json = await readFile(file, "utf8").catch(() => {
+    throw new UsageError(`Cannot read pipeline file "${file}"`);
+  });
+  try {
+    return parsePipelineJson(json, filterRegistry.templates());
+  } catch (error) {
+    if (!(error instanceof PipelineDocumentError)) throw error;
+    throw new UsageError([`${file}: ${error.message}`, ...error.issues.map((issue) => `  ${issue}`)].join("\n"));
+  }
+}
+
+async function loadAuxiliaryImages(images: { [name: string]: string }): Promise<{ [name: string]: Uint8Array }> {
+  const loaded: { [name: string]: Uint8Array } = {};
+  for (const [name, file] of Object.entries(images)) {
+    loaded[name] = await readFile(file).catch(() => {
+      throw new UsageError(`Cannot read --image ${name}=${file}`);
+    });
+  }
+  return loaded;
+}
+
+function outputPath(args: RunArgs, input: InputFile): string {
+  const relative = input.relativePath.replace(/\.[^./\\]+$/, "");
+  return path.join(args.outDir, `${relative}.${args.format === "jpeg" ? "jpg" : args.format}`);
+}
+
+// Runs the pipeline over every input and returns the process exit code. Progress goes to stderr and the
+// JSON summary to stdout (or --summary), so the output can be piped into other tools.
+export async function runCommand(args: RunArgs): Promise<number> {
+  const started = performance.now();
+  const { filters, settings } = await loadPipeline(args.pipelinePath);
+  const auxiliaryImages = await loadAuxiliaryImages(args.images);
+  const inputs = await expandInputs(args.inputs).catch((error: Error) => {
+    throw new UsageError(error.message);
+  });
+  if (inputs.length === 0) throw new UsageError(`No PNG or JPEG files match ${args.inputs.join(", ")}`);
+
+  const pool = new ProcessorPool(Math.min(args.concurrency, inputs.length), createHeadlessProcessor);
+  const images: ImageSummary[] = new Array(inputs.length);
+  const width = String(inputs.length).length;
+  let next = 0;
+  let done = 0;
+
+  const processNext = async (): Promise<void> => {
+    while (next < inputs.length) {
+      const index = next++;
+      const input = inputs[index];
+      const target = outputPath(args, input);
+      let summary: ImageSummary;
+      try {
+        const bytes = new Uint8Array(await readFile(input.path));
+        const { result, output, ...size } = await pool.use((processor) =>
+          processImageBuffer(bytes, filters, {
+            ...settings,
+            processor,
+            auxiliaryImages,
+            outputSize: args.outputSize,
+            format: args.format,
+            quality: args.quality,
+          })
+        );
+        if (output) {
+          await mkdir(path.dirname(target), { recursive: true });
+          await writeFile(target, output);
+        }
+        summary = {
+          input: input.path,
+          output: output ? target : null,
+          success: result.success && output !== null,
+          ...size,
+          tiles: result.tiles ?? 1,
+          gpuTimeMs: result.gpuTime,
+          totalTimeMs: result.totalTime,
+          stages: (result.stageTimings ?? []).map((stage) => ({
+            filterId: stage.filterId,
+            shader: stage.shader,
+            gpuTimeMs: stage.gpuTimeNs / 1e6,
+            wallTimeMs: stage.wallTime,
+            passes: stage.passes,
+          })),
+          ...(result.error ? { error: result.error } : {}),
+        };
+      } catch (error) {
+        summary = {
+          input: input.path,
+          output: null,
+          success: false,
+          width: 0,
+          height: 0,
+          tiles: 0,
+          gpuTimeMs: 0,
+          totalTimeMs: 0,
+          stages: [],
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+      images[index] = summary;
+      done++;
+
+      const counter = `[${String(done).padStart(width)}/${inputs.length}]`;
+      process.stderr.write(
+        summary.success
+          ? `${counter} ${input.path} -> ${target} ${summary.width}x${summary.height} ${summary.totalTimeMs.toFixed(0)} ms\n`
+          : `${counter} ${input.path} FAILED: ${summary.error ?? "unknown error"}\n`
+      );
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(args.concurrency, inputs.length) }, processNext));
+  } finally {
+    pool.destroy();
+  }
+
+  const failed = images.filter((image) => !image.success).length;
+  const summary: RunSummary = {
+    pipeline: args.pipelinePath,
+    format: args.format,
+    outputSize: describeOutputSizePolicy(args.outputSize),
+    concurrency: args.concurrency,
+    total: images.length,
+    succeeded: images.length - failed,
+    failed,
+    elapsedMs: performance.now() - started,
+    images,
+  };
+  const json = JSON.stringify(summary, null, 2) + "\n";
+  if (args.summaryPath) await writeFile(args.summaryPath, json);
+  else process.stdout.write(json);
+
+  process.stderr.write(`${summary.succeeded} of ${summary.total} images processed, ${failed} failed\n`);
+  return failed > 0 ? EXIT_FAILED : EXIT_OK;
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FILE_NAME_TOKENS, fileNameTemplateIssues } from "@/lib/export/filename"
+import { EXPORT_FORMAT_OPTIONS, getExportFormat, type ExportFormat, type ExportSettings } from "@/lib/export/settings"
+
+interface ExportSettingsControlProps {
+  value: ExportSettings
+  onChange: (settings: ExportSettings) => void
+  // Formats this browser can encode
+  formats: ExportFormat[]
+  // ICC profiles only carry over to sRGB output
+  iccAvailable: boolean
+  disabled?: boolean
+}
+
+// Format, quality, metadata and file naming for Save Current and batch export
+export function ExportSettingsControl({ value, onChange, formats, iccAvailable, disabled }: ExportSettingsControlProps) {
+  const format = getExportFormat(value.format)
+  const templateIssues = fileNameTemplateIssues(value.fileNameTemplate)
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600">Export as</span>
+        <Select
+          value={value.format}
+          onValueChange={(next) => onChange({ ...value, format: next as ExportFormat })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="h-8 w-24 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPORT_FORMAT_OPTIONS.filter((option) => formats.includes(option.value)).map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {format.lossy && (
+          <>
+            <span className="text-gray-600">Quality</span>
+            <Input
+              type="number"
+              value={value.quality}
+              min={1}
+              max={100}
+              aria-label="Export quality"
+              disabled={disabled}
+              onChange={(event) => {
+                const next = Number(event.target.value)
+                if (Number.isFinite(next) && next >= 1 && next <= 100) onChange({ ...value, quality: Math.round(next) })
+              }}
+              className="h-8 w-20 text-xs"
+            />
+          </>
+        )}
+        {!format.alpha && <span className="text-xs text-gray-500">No transparency: flattened onto the background, or white</span>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2">
+          <Checkbox
+            checked={value.keepExif}
+            onCheckedChange={(checked) => onChange({ ...value, keepExif: checked === true })}
+            disabled={disabled}
+          />
+          <span className="text-gray-600">Keep EXIF</span>
+        </label>
+        <label
+          className="flex items-center gap-2"
+          title={iccAvailable ? undefined : "The source profile does not describe Display P3 output"}
+        >
+          <Checkbox
+            checked={value.keepIcc && iccAvailable}
+            onCheckedChange={(checked) => onChange({ ...value, keepIcc: checked === true })}
+            disabled={disabled || !iccAvailable}
+          />
+          <span className="text-gray-600">Keep ICC profile</span>
+        </label>
+        {value.format === "avif" && (value.keepExif || value.keepIcc) && (
+          <span className="text-xs text-gray-500">Metadata is not written to AVIF files</span>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-gray-600">File name</span>
+        <Input
+          value={value.fileNameTemplate}
+          aria-label="Export file name template"
+          disabled={disabled}
+          onChange={(event) => onChange({ ...value, fileNameTemplate: event.target.value })}
+          className="h-8 w-72 font-mono text-xs"
+        />
+        <span className="text-xs text-gray-500">{FILE_NAME_TOKENS.map((token) => `{${token}}`).join(" ")}</span>
+      </div>
+      {templateIssues.length > 0 && <p className="text-xs text-red-600">{templateIssues.join("; ")}</p>}
+    </div>
+  )
+}
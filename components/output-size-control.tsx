@@ -0,0 +1,116 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { OutputSizePolicy } from "@/lib/pipeline/output-size"
+
+interface OutputSizeControlProps {
+  value: OutputSizePolicy
+  onChange: (policy: OutputSizePolicy) => void
+  disabled?: boolean
+}
+
+const DEFAULT_BOX = { width: 1920, height: 1080 }
+
+function NumberField({
+  value,
+  onChange,
+  min,
+  max,
+  label,
+  disabled,
+}: {
+  value: number
+  onChange: (value: number) => void
+  min: number
+  max: number
+  label: string
+  disabled?: boolean
+}) {
+  return (
+    <Input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      aria-label={label}
+      disabled={disabled}
+      onChange={(event) => {
+        const next = Number(event.target.value)
+        if (Number.isFinite(next) && next >= min && next <= max) onChange(Math.round(next))
+      }}
+      className="h-8 w-24 text-xs"
+    />
+  )
+}
+
+// Output size policy for batch processing and export
+export function OutputSizeControl({ value, onChange, disabled }: OutputSizeControlProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-600">Output size</span>
+      <Select
+        value={value.mode}
+        onValueChange={(mode) => {
+          switch (mode) {
+            case "original":
+              onChange({ mode: "original" })
+              break
+            case "fit":
+            case "exact":
+              onChange({ mode, ...("width" in value ? { width: value.width, height: value.height } : DEFAULT_BOX) })
+              break
+            case "scale":
+              onChange({ mode: "scale", percent: 50 })
+              break
+          }
+        }}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 w-36 text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="original">Original</SelectItem>
+          <SelectItem value="fit">Fit within</SelectItem>
+          <SelectItem value="exact">Exact size</SelectItem>
+          <SelectItem value="scale">Scale %</SelectItem>
+        </SelectContent>
+      </Select>
+      {(value.mode === "fit" || value.mode === "exact") && (
+        <>
+          <NumberField
+            value={value.width}
+            onChange={(width) => onChange({ ...value, width })}
+            min={1}
+            max={65535}
+            label="Output width"
+            disabled={disabled}
+          />
+          <span className="text-gray-400">×</span>
+          <NumberField
+            value={value.height}
+            onChange={(height) => onChange({ ...value, height })}
+            min={1}
+            max={65535}
+            label="Output height"
+            disabled={disabled}
+          />
+        </>
+      )}
+      {value.mode === "scale" && (
+        <>
+          <NumberField
+            value={value.percent}
+            onChange={(percent) => onChange({ mode: "scale", percent })}
+            min={1}
+            max={400}
+            label="Output scale percent"
+            disabled={disabled}
+          />
+          <span className="text-gray-400">%</span>
+        </>
+      )}
+    </div>
+  )
+}
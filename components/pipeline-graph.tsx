@@ -0,0 +1,209 @@
+"use client"
+
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { Filter, InputSource } from "@/lib/gpu/ReglSurface"
+import { filterRegistry } from "@/lib/gpu/filters/registry"
+import { getInputSource, getNodeInputs, isSameSource, type NodeInput } from "@/lib/pipeline/graph"
+
+const GUTTER = 56
+const HEADER_HEIGHT = 32
+const INPUT_ROW_HEIGHT = 36
+const NODE_GAP = 16
+
+const edgeColors = {
+  primary: "#2563eb",
+  extra: "#f97316",
+}
+
+interface PipelineGraphProps {
+  pipeline: Filter[]
+  // Names of the loaded images that can be wired into an input
+  imageNames: string[]
+  disabled?: boolean
+  // A null source restores the input's default
+  onInputChange: (filterId: string, inputId: string, source: InputSource | null) => void
+}
+
+interface GraphNode {
+  key: string
+  title: string
+  filter?: Filter
+  inputs: NodeInput[]
+  top: number
+  height: number
+}
+
+// Select values are strings, so sources are encoded as "previous", "original", "node:<id>" or "image:<name>"
+function encodeSource(source: InputSource): string {
+  switch (source.type) {
+    case "node":
+      return `node:${source.nodeId}`
+    case "image":
+      return `image:${source.imageName}`
+    default:
+      return source.type
+  }
+}
+
+function decodeSource(value: string): InputSource {
+  if (value.startsWith("node:")) return { type: "node", nodeId: value.slice("node:".length) }
+  if (value.startsWith("image:")) return { type: "image", imageName: value.slice("image:".length) }
+  return { type: value as "previous" | "original" }
+}
+
+// Vertical node graph of the pipeline: Original at the top, Output at the bottom, list order in between.
+// Edges enter each input port from the left; longer skips bend further out so they stay distinguishable.
+export function PipelineGraph({ pipeline, imageNames, disabled, onInputChange }: PipelineGraphProps) {
+  const nodes: GraphNode[] = []
+  let top = 0
+  const addNode = (node: Omit<GraphNode, "top" | "height">) => {
+    const height = HEADER_HEIGHT + node.inputs.length * INPUT_ROW_HEIGHT + (node.inputs.length > 0 ? 8 : 0)
+    nodes.push({ ...node, top, height })
+    top += height + NODE_GAP
+  }
+
+  addNode({ key: "original", title: "Original image", inputs: [] })
+  pipeline.forEach((filter, index) => {
+    const definition = filterRegistry.get(filter.id.split("-")[0])
+    addNode({
+      key: filter.id,
+      title: `${index + 1}. ${filter.name}`,
+      filter,
+      inputs: definition ? getNodeInputs(definition) : [],
+    })
+  })
+  addNode({ key: "output", title: "Output", inputs: [] })
+  const height = top - NODE_GAP
+
+  const outputPortY = (row: number) => nodes[row].top + HEADER_HEIGHT / 2
+  const inputPortY = (row: number, inputIndex: number) =>
+    nodes[row].top + HEADER_HEIGHT + inputIndex * INPUT_ROW_HEIGHT + INPUT_ROW_HEIGHT / 2
+
+  const edge = (fromY: number, toY: number, span: number) => {
+    const bend = Math.min(GUTTER - 6, 12 + span * 10)
+    return `M ${GUTTER} ${fromY} C ${GUTTER - bend} ${fromY}, ${GUTTER - bend} ${toY}, ${GUTTER} ${toY}`
+  }
+
+  // Node rows are offset by one for the Original node
+  const sourceRow = (source: InputSource, row: number): number | null => {
+    switch (source.type) {
+      case "previous":
+        return row - 1
+      case "original":
+        return 0
+      case "node": {
+        const index = pipeline.findIndex((f) => f.id === source.nodeId)
+        return index === -1 ? null : index + 1
+      }
+      case "image":
+        return null
+    }
+  }
+
+  const edges: { key: string; d: string; color: string; dashed: boolean }[] = []
+  nodes.forEach((node, row) => {
+    node.inputs.forEach((input, inputIndex) => {
+      const from = sourceRow(getInputSource(node.filter!, input), row)
+      if (from === null) return
+      edges.push({
+        key: `${node.key}:${input.id}`,
+        d: edge(outputPortY(from), inputPortY(row, inputIndex), row - from),
+        color: inputIndex === 0 ? edgeColors.primary : edgeColors.extra,
+        dashed: !node.filter!.enabled,
+      })
+    })
+  })
+  if (nodes.length > 1) {
+    const outputRow = nodes.length - 1
+    edges.push({
+      key: "output",
+      d: edge(outputPortY(outputRow - 1), outputPortY(outputRow), 1),
+      color: edgeColors.primary,
+      dashed: false,
+    })
+  }
+
+  return (
+    <div className="relative w-full" style={{ height }}>
+      <svg className="absolute inset-0 pointer-events-none" width="100%" height={height} aria-hidden="true">
+        {edges.map((e) => (
+          <path
+            key={e.key}
+            d={e.d}
+            fill="none"
+            stroke={e.color}
+            strokeWidth={2}
+            strokeDasharray={e.dashed ? "4 3" : undefined}
+            opacity={e.dashed ? 0.5 : 0.9}
+          />
+        ))}
+        {nodes.map((node, row) => (
+          <circle key={node.key} cx={GUTTER} cy={outputPortY(row)} r={3} fill="#64748b" />
+        ))}
+      </svg>
+
+      {nodes.map((node, row) => (
+        <div
+          key={node.key}
+          className={`absolute right-0 rounded-md border bg-white text-sm ${node.filter ? (node.filter.enabled ? "border-blue-200" : "border-gray-200 opacity-60") : "border-gray-300 bg-gray-50"}`}
+          style={{ top: node.top, left: GUTTER, height: node.height }}
+        >
+          <div className="flex items-center justify-between px-3" style={{ height: HEADER_HEIGHT }}>
+            <span className="font-medium truncate">{node.title}</span>
+            {node.filter && !node.filter.enabled && <span className="text-xs text-gray-500">bypassed</span>}
+          </div>
+          {node.inputs.map((input) => {
+            const filter = node.filter!
+            const source = getInputSource(filter, input)
+            const earlier = pipeline.slice(0, row - 1)
+            return (
+              <div key={input.id} className="flex items-center gap-2 px-3" style={{ height: INPUT_ROW_HEIGHT }}>
+                <span className="w-20 shrink-0 text-xs text-gray-500 truncate">{input.label}</span>
+                <Select
+                  value={encodeSource(source)}
+                  onValueChange={(value) => {
+                    const next = decodeSource(value)
+                    onInputChange(filter.id, input.id, isSameSource(next, input.defaultSource) ? null : next)
+                  }}
+                  disabled={disabled}
+                >
+                  <SelectTrigger className="h-7 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="previous">Previous stage</SelectItem>
+                    <SelectItem value="original">Original image</SelectItem>
+                    {earlier.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Earlier stages</SelectLabel>
+                        {earlier.map((candidate, index) => (
+                          <SelectItem key={candidate.id} value={`node:${candidate.id}`}>
+                            {index + 1}. {candidate.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {imageNames.length > 0 && (
+                      <SelectGroup>
+                        <SelectLabel>Loaded images</SelectLabel>
+                        {imageNames.map((name) => (
+                          <SelectItem key={name} value={`image:${name}`}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    )}
+                    {/* Keep a wired image selectable even after it was removed from the batch */}
+                    {source.type === "image" && !imageNames.includes(source.imageName) && (
+                      <SelectItem value={encodeSource(source)}>{source.imageName} (not loaded)</SelectItem>
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+            )
+          })}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { Filter, StageTiming } from "@/lib/gpu/ReglSurface"
+
+const chartConfig = {
+  gpu: {
+    label: "GPU",
+    color: "#2563eb",
+  },
+  overhead: {
+    label: "CPU overhead",
+    color: "#f97316",
+  },
+} satisfies ChartConfig
+
+interface StageTimingChartProps {
+  stages: StageTiming[]
+  pipeline: Filter[]
+}
+
+// Waterfall of pipeline stages: each bar starts where the previous stage's GPU work ended
+export function StageTimingChart({ stages, pipeline }: StageTimingChartProps) {
+  let elapsed = 0
+  const data = stages.map((stage, index) => {
+    const name = pipeline.find((f) => f.id === stage.filterId)?.name ?? stage.shader
+    const gpu = stage.gpuTimeNs / 1e6
+    const row = {
+      stage: `${index + 1}. ${name}${stage.passes > 1 ? ` ×${stage.passes}` : ""}${stage.cached ? " (cached)" : ""}`,
+      offset: elapsed,
+      gpu,
+      overhead: Math.max(0, stage.wallTime - gpu),
+      reads: stage.textureReadsPerPixel,
+    }
+    elapsed += gpu
+    return row
+  })
+
+  const slowest = stages.reduce<StageTiming | null>(
+    (worst, stage) => (!worst || stage.gpuTimeNs > worst.gpuTimeNs ? stage : worst),
+    null,
+  )
+  const allMeasured = stages.every((stage) => stage.measured)
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="w-full" style={{ height: Math.max(120, stages.length * 32 + 40) }}>
+        <BarChart data={data} layout="vertical" margin={{ left: 8, right: 8 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" unit="ms" tickFormatter={(value: number) => value.toFixed(1)} />
+          <YAxis type="category" dataKey="stage" width={140} tickLine={false} axisLine={false} />
+          <ChartTooltip
+            cursor={false}
+            content={
+              <ChartTooltipContent
+                formatter={(value, name, item) => (
+                  <div className="flex w-full justify-between gap-2">
+                    <span>{chartConfig[name as keyof typeof chartConfig]?.label ?? name}</span>
+                    <span className="font-mono">
+                      {Number(value).toFixed(2)}ms
+                      {name === "gpu" && ` · ${item.payload.reads} reads/px`}
+                    </span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Bar dataKey="offset" stackId="stage" fill="transparent" tooltipType="none" isAnimationActive={false} />
+          <Bar dataKey="gpu" stackId="stage" fill="var(--color-gpu)" isAnimationActive={false} />
+          <Bar dataKey="overhead" stackId="stage" fill="var(--color-overhead)" radius={[0, 4, 4, 0]} isAnimationActive={false} />
+        </BarChart>
+      </ChartContainer>
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{allMeasured ? "Measured with GPU timer queries" : "Estimated from CPU wall time"}</span>
+        {slowest && slowest.gpuTimeNs > 0 && (
+          <span>
+            Bottleneck: {pipeline.find((f) => f.id === slowest.filterId)?.name ?? slowest.shader}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
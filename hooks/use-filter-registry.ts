@@ -0,0 +1,15 @@
+"use client"
+
+import * as React from "react"
+
+import type { FilterTemplate } from "@/lib/gpu/ReglSurface"
+import { filterRegistry, toFilterTemplate, type FilterRegistry } from "@/lib/gpu/filters/registry"
+
+// Library view of the registry that re-renders when plugins register or remove filters
+export function useFilterTemplates(registry: FilterRegistry = filterRegistry): FilterTemplate[] {
+  const subscribe = React.useCallback((listener: () => void) => registry.subscribe(listener), [registry])
+  const getSnapshot = React.useCallback(() => registry.list(), [registry])
+  const definitions = React.useSyncExternalStore(subscribe, getSnapshot, getSnapshot)
+
+  return React.useMemo(() => definitions.map(toFilterTemplate), [definitions])
+}
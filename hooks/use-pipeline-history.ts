@@ -0,0 +1,167 @@
+"use client"
+
+import * as React from "react"
+
+import type { Filter } from "@/lib/gpu/ReglSurface"
+import { DEFAULT_PIPELINE_SETTINGS, type PipelineSettings } from "@/lib/pipeline/settings"
+
+const HISTORY_LIMIT = 100
+// Edits with the same coalesce key merge into one entry while they keep arriving within this window
+const COALESCE_WINDOW_MS = 1000
+
+export interface HistoryEntry {
+  id: number
+  label: string
+  pipeline: Filter[]
+  // Kept with the filters so that undoing an import or a settings change restores both together
+  settings: PipelineSettings
+  timestamp: number
+}
+
+export interface HistoryState {
+  entries: HistoryEntry[]
+  index: number
+  // Key of the entry that is still accepting coalesced edits, e.g. an in-progress slider drag
+  openKey: string | null
+}
+
+type Label = string | ((previous: Filter[], next: Filter[]) => string)
+
+type Action =
+  | {
+      type: "APPLY"
+      update: (previous: Filter[]) => Filter[]
+      updateSettings?: (previous: PipelineSettings) => PipelineSettings
+      label: Label
+      coalesceKey?: string
+      timestamp: number
+    }
+  | { type: "SEAL" }
+  | { type: "UNDO" }
+  | { type: "REDO" }
+  | { type: "JUMP"; index: number }
+  | { type: "RESET"; pipeline: Filter[]; settings: PipelineSettings; label: string; timestamp: number }
+
+let entryCount = 0
+
+function createEntry(label: string, pipeline: Filter[], settings: PipelineSettings, timestamp: number): HistoryEntry {
+  entryCount = (entryCount + 1) % Number.MAX_SAFE_INTEGER
+  return { id: entryCount, label, pipeline, settings, timestamp }
+}
+
+export const reducer = (state: HistoryState, action: Action): HistoryState => {
+  switch (action.type) {
+    case "APPLY": {
+      const current = state.entries[state.index]
+      const next = action.update(current.pipeline)
+      const settings = action.updateSettings ? action.updateSettings(current.settings) : current.settings
+      if (next === current.pipeline && settings === current.settings) return state
+
+      const label = typeof action.label === "function" ? action.label(current.pipeline, next) : action.label
+      const coalesce =
+        action.coalesceKey !== undefined &&
+        action.coalesceKey === state.openKey &&
+        state.index > 0 &&
+        action.timestamp - current.timestamp < COALESCE_WINDOW_MS
+
+      if (coalesce) {
+        const entries = state.entries.slice(0, state.index + 1)
+        entries[state.index] = { ...current, label, pipeline: next, settings, timestamp: action.timestamp }
+        return { ...state, entries }
+      }
+
+      const entries = [...state.entries.slice(0, state.index + 1), createEntry(label, next, settings, action.timestamp)]
+      const trimmed = entries.slice(-HISTORY_LIMIT)
+      return {
+        entries: trimmed,
+        index: trimmed.length - 1,
+        openKey: action.coalesceKey ?? null,
+      }
+    }
+
+    case "SEAL":
+      return state.openKey === null ? state : { ...state, openKey: null }
+
+    case "UNDO":
+      return state.index > 0 ? { ...state, index: state.index - 1, openKey: null } : state
+
+    case "REDO":
+      return state.index < state.entries.length - 1 ? { ...state, index: state.index + 1, openKey: null } : state
+
+    case "JUMP":
+      if (action.index < 0 || action.index >= state.entries.length) return state
+      return { ...state, index: action.index, openKey: null }
+
+    case "RESET":
+      return {
+        entries: [createEntry(action.label, action.pipeline, action.settings, action.timestamp)],
+        index: 0,
+        openKey: null,
+      }
+  }
+}
+
+export function usePipelineHistory(
+  initialPipeline: Filter[] = [],
+  initialSettings: PipelineSettings = DEFAULT_PIPELINE_SETTINGS,
+) {
+  const [state, dispatch] = React.useReducer(reducer, undefined, () => ({
+    entries: [createEntry("Initial pipeline", initialPipeline, initialSettings, Date.now())],
+    index: 0,
+    openKey: null,
+  }))
+
+  // `options.settings` changes the pipeline settings in the same entry, e.g. for an import
+  const apply = React.useCallback(
+    (
+      update: (previous: Filter[]) => Filter[],
+      label: Label,
+      options: { coalesceKey?: string; settings?: (previous: PipelineSettings) => PipelineSettings } = {}
+    ) => {
+      dispatch({
+        type: "APPLY",
+        update,
+        updateSettings: options.settings,
+        label,
+        coalesceKey: options.coalesceKey,
+        timestamp: Date.now(),
+      })
+    },
+    []
+  )
+
+  // A settings change that leaves the filters alone
+  const applySettings = React.useCallback(
+    (update: (previous: PipelineSettings) => PipelineSettings, label: string, options: { coalesceKey?: string } = {}) => {
+      apply((previous) => previous, label, { ...options, settings: update })
+    },
+    [apply]
+  )
+
+  // Closes the open coalescing entry, e.g. when a slider drag is released
+  const seal = React.useCallback(() => dispatch({ type: "SEAL" }), [])
+  const undo = React.useCallback(() => dispatch({ type: "UNDO" }), [])
+  const redo = React.useCallback(() => dispatch({ type: "REDO" }), [])
+  const jumpTo = React.useCallback((index: number) => dispatch({ type: "JUMP", index }), [])
+  const reset = React.useCallback(
+    (pipeline: Filter[], label: string, settings: PipelineSettings = DEFAULT_PIPELINE_SETTINGS) =>
+      dispatch({ type: "RESET", pipeline, settings, label, timestamp: Date.now() }),
+    []
+  )
+
+  return {
+    pipeline: state.entries[state.index].pipeline,
+    settings: state.entries[state.index].settings,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    apply,
+    applySettings,
+    seal,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  }
+}
@@ -0,0 +1,165 @@
+import type { ProcessingResult } from "@/lib/gpu/ReglSurface";
+
+// Runs a batch, up to `concurrency` items at a time, with cancel, pause/resume and skip-current.
+// Pausing lets the running items finish and holds the next ones; cancelling and skipping abort the
+// running items through the signal handed to the task.
+
+export type BatchState = "idle" | "running" | "paused" | "cancelling";
+
+export type BatchItemStatus = "succeeded" | "failed" | "skipped";
+
+export interface BatchItemReport<T> {
+  item: T;
+  // Position in the list given to run()
+  index: number;
+  status: BatchItemStatus;
+  result?: ProcessingResult;
+  error?: string;
+}
+
+export interface BatchReport<T> {
+  items: BatchItemReport<T>[];
+  succeeded: number;
+  failed: number;
+  skipped: number;
+  cancelled: boolean;
+  elapsedMs: number;
+}
+
+// Resolves with the item's result; failures are unsuccessful results, as from processImageWithPipeline
+export type BatchTask<T> = (item: T, index: number, signal: AbortSignal) => Promise<ProcessingResult>;
+
+export interface BatchHooks<T> {
+  onItemStart?: (item: T, index: number) => void;
+  onItemDone?: (report: BatchItemReport<T>) => void;
+}
+
+export interface BatchRunOptions {
+  // Items in flight at once; 1 runs the batch strictly in order
+  concurrency?: number;
+}
+
+export class BatchController {
+  private state: BatchState = "idle";
+  private running = new Set<AbortController>();
+  private resumeGate: { promise: Promise<void>; open: () => void } | null = null;
+
+  // Called on every state change, e.g. to mirror it in React state
+  constructor(private onStateChange: (state: BatchState) => void = () => {}) {}
+
+  async run<T>(
+    items: T[],
+    task: BatchTask<T>,
+    hooks: BatchHooks<T> = {},
+    { concurrency = 1 }: BatchRunOptions = {}
+  ): Promise<BatchReport<T>> {
+    if (this.state !== "idle") throw new Error("A batch is already running");
+    this.setState("running");
+    const startTime = performance.now();
+    const reports: BatchItemReport<T>[] = [];
+    let next = 0;
+
+    // Each lane takes the next item as soon as its previous one is done
+    const lane = async () => {
+      while (next < items.length) {
+        if (this.resumeGate) {
+          await this.resumeGate.promise;
+          continue;
+        }
+        const index = next++;
+        const item = items[index];
+        if (this.cancelling) {
+          reports.push({ item, index, status: "skipped" });
+          continue;
+        }
+
+        hooks.onItemStart?.(item, index);
+        const report = await this.runItem(item, index, task);
+        reports.push(report);
+        hooks.onItemDone?.(report);
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, lane));
+    } finally {
+      this.running.clear();
+      this.resumeGate = null;
+    }
+    reports.sort((a, b) => a.index - b.index);
+
+    const cancelled = this.cancelling;
+    this.setState("idle");
+    const count = (status: BatchItemStatus) => reports.filter((report) => report.status === status).length;
+    return {
+      items: reports,
+      succeeded: count("succeeded"),
+      failed: count("failed"),
+      skipped: count("skipped"),
+      cancelled,
+      elapsedMs: performance.now() - startTime,
+    };
+  }
+
+  pause() {
+    if (this.state !== "running") return;
+    let open = () => {};
+    const promise = new Promise<void>((resolve) => (open = resolve));
+    this.resumeGate = { promise, open };
+    this.setState("paused");
+  }
+
+  resume() {
+    if (this.state !== "paused") return;
+    this.openGate();
+    this.setState("running");
+  }
+
+  // Aborts the running items and skips every item after them
+  cancel() {
+    if (this.state === "idle" || this.state === "cancelling") return;
+    this.openGate();
+    this.running.forEach((controller) => controller.abort());
+    this.setState("cancelling");
+  }
+
+  // Aborts the running items only; the batch continues with the next ones
+  skipCurrent() {
+    if (this.state === "cancelling") return;
+    this.running.forEach((controller) => controller.abort());
+  }
+
+  private async runItem<T>(item: T, index: number, task: BatchTask<T>): Promise<BatchItemReport<T>> {
+    const controller = new AbortController();
+    this.running.add(controller);
+    const { signal } = controller;
+    try {
+      const result = await task(item, index, signal);
+      // A task may finish anyway after the abort; the user asked for it to be dropped
+      if (signal.aborted) return { item, index, status: "skipped" };
+      return result.success
+        ? { item, index, status: "succeeded", result }
+        : { item, index, status: "failed", result, error: result.error ?? "Processing failed" };
+    } catch (error) {
+      if (signal.aborted) return { item, index, status: "skipped" };
+      return { item, index, status: "failed", error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      this.running.delete(controller);
+    }
+  }
+
+  // A getter, so TypeScript does not narrow the state across the awaits in run()
+  private get cancelling(): boolean {
+    return this.state === "cancelling";
+  }
+
+  private openGate() {
+    this.resumeGate?.open();
+    this.resumeGate = null;
+  }
+
+  private setState(state: BatchState) {
+    this.state = state;
+    this.onStateChange(state);
+  }
+}
@@ -0,0 +1,103 @@
+import { ZipWriter } from "./zip";
+
+// Where a batch export writes its files: a ZIP archive or a folder the user picked. Both are opened
+// before any image is rendered, so a cancelled picker costs nothing.
+
+export type ExportTarget = "zip" | "directory";
+
+export interface ExportDestination {
+  // Names may contain "/" for subfolders
+  write(name: string, data: Uint8Array): Promise<void>;
+  // Finishes the export; for a downloaded ZIP this is when the download starts
+  close(): Promise<void>;
+  // Discards what was written so far, as far as the target allows
+  abort(): Promise<void>;
+}
+
+export function supportsDirectoryExport(): boolean {
+  return typeof window !== "undefined" && typeof window.showDirectoryPicker === "function";
+}
+
+// A picker dismissed by the user rejects with an AbortError; that is a cancel, not a failure
+export function isExportCancelled(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoking right away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+// Streams the archive straight to disk where the save picker exists; elsewhere the chunks are
+// collected into one Blob and downloaded in a single click when the archive is complete.
+export async function openZipExport(filename: string): Promise<ExportDestination> {
+  if (typeof window.showSaveFilePicker === "function") {
+    const handle = await window.showSaveFilePicker({
+      suggestedName: filename,
+      types: [{ description: "ZIP archive", accept: { "application/zip": [".zip"] } }],
+    });
+    const stream = await handle.createWritable();
+    const zip = new ZipWriter((chunk) => stream.write(chunk));
+    return {
+      write: (name, data) => zip.addFile(name, data),
+      async close() {
+        await zip.finish();
+        await stream.close();
+      },
+      abort: () => stream.abort(),
+    };
+  }
+
+  let chunks: BlobPart[] = [];
+  const zip = new ZipWriter(async (chunk) => {
+    chunks.push(chunk);
+  });
+  return {
+    write: (name, data) => zip.addFile(name, data),
+    async close() {
+      await zip.finish();
+      downloadBlob(new Blob(chunks, { type: "application/zip" }), filename);
+      chunks = [];
+    },
+    async abort() {
+      chunks = [];
+    },
+  };
+}
+
+async function getDirectory(root: FileSystemDirectoryHandle, path: string[]): Promise<FileSystemDirectoryHandle> {
+  let directory = root;
+  for (const part of path) directory = await directory.getDirectoryHandle(part, { create: true });
+  return directory;
+}
+
+// Writes each file into a folder the user picks, replacing files of the same name
+export async function openDirectoryExport(): Promise<ExportDestination> {
+  if (!supportsDirectoryExport()) throw new Error("This browser cannot write to folders");
+  const root = await window.showDirectoryPicker!({ id: "batch-export", mode: "readwrite" });
+  return {
+    async write(name, data) {
+      const parts = name.split("/");
+      const directory = await getDirectory(root, parts.slice(0, -1));
+      const file = await directory.getFileHandle(parts[parts.length - 1], { create: true });
+      const stream = await file.createWritable();
+      try {
+        await stream.write(data);
+        await stream.close();
+      } catch (error) {
+        await stream.abort();
+        throw error;
+      }
+    },
+    async close() {},
+    // Files already written are complete and are left in place
+    async abort() {},
+  };
+}
@@ -0,0 +1,82 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encode as encodeJpeg } from "jpeg-js";
+import { decodeImage } from "@/lib/gpu/codecs";
+import type { RawImage } from "@/lib/gpu/image";
+import { encodeExportImage } from "./encode";
+import { DEFAULT_EXPORT_SETTINGS, type ExportSettings } from "./settings";
+
+// Node has no canvas encoders. This stands in for the browser's, encoding JPEG with jpeg-js, which
+// drops the alpha channel without compositing, so only flattening in encodeExportImage shows up.
+class FakeImageData {
+  constructor(readonly data: Uint8ClampedArray, readonly width: number, readonly height: number) {}
+}
+
+class FakeOffscreenCanvas {
+  private pixels: FakeImageData | null = null;
+
+  constructor(readonly width: number, readonly height: number) {}
+
+  getContext() {
+    return { putImageData: (pixels: FakeImageData) => (this.pixels = pixels) };
+  }
+
+  async convertToBlob({ type, quality }: { type: string; quality: number }) {
+    if (type !== "image/jpeg" || !this.pixels) throw new Error(`Cannot encode ${type}`);
+    const { data } = encodeJpeg({ data: this.pixels.data, width: this.width, height: this.height }, quality * 100);
+    return new Blob([new Uint8Array(data)], { type });
+  }
+}
+
+// Left half: red at half opacity. Right half: fully transparent black. Each half fills whole JPEG blocks.
+function halfTransparentImage(): RawImage {
+  const width = 32;
+  const height = 16;
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width / 2; x++) data.set([255, 0, 0, 128], (y * width + x) * 4);
+  }
+  return { width, height, data };
+}
+
+function pixelAt(image: RawImage, x: number, y: number): number[] {
+  const offset = (y * image.width + x) * 4;
+  return Array.from(image.data.subarray(offset, offset + 4));
+}
+
+// JPEG is lossy, so colors are compared within a few steps
+function assertColor(actual: number[], expected: number[]) {
+  const close = expected.every((value, channel) => Math.abs(actual[channel] - value) <= 4);
+  assert.ok(close, `expected about ${expected.join(",")}, got ${actual.join(",")}`);
+}
+
+const jpegSettings: ExportSettings = { ...DEFAULT_EXPORT_SETTINGS, format: "jpeg", quality: 100 };
+
+describe("encodeExportImage", () => {
+  before(() => {
+    Object.assign(globalThis, { OffscreenCanvas: FakeOffscreenCanvas, ImageData: FakeImageData });
+  });
+
+  after(() => {
+    Reflect.deleteProperty(globalThis, "OffscreenCanvas");
+    Reflect.deleteProperty(globalThis, "ImageData");
+  });
+
+  it("flattens JPEG exports onto white when the pipeline keeps transparency", async () => {
+    const exported = decodeImage(await encodeExportImage(halfTransparentImage(), jpegSettings));
+    assertColor(pixelAt(exported, 4, 8), [255, 127, 127, 255]);
+    assertColor(pixelAt(exported, 28, 8), [255, 255, 255, 255]);
+  });
+
+  it("flattens JPEG exports onto the pipeline matte", async () => {
+    const exported = decodeImage(await encodeExportImage(halfTransparentImage(), jpegSettings, {}, "#0000ff"));
+    assertColor(pixelAt(exported, 4, 8), [128, 0, 127, 255]);
+    assertColor(pixelAt(exported, 28, 8), [0, 0, 255, 255]);
+  });
+
+  it("keeps the alpha channel of PNG exports", async () => {
+    const exported = decodeImage(await encodeExportImage(halfTransparentImage(), DEFAULT_EXPORT_SETTINGS, {}, "#0000ff"));
+    assert.deepEqual(pixelAt(exported, 4, 8), [255, 0, 0, 128]);
+    assert.deepEqual(pixelAt(exported, 28, 8), [0, 0, 0, 0]);
+  });
+});
@@ -0,0 +1,98 @@
+import { encodeImagePng } from "@/lib/gpu/codecs";
+import type { OutputSpace } from "@/lib/gpu/color";
+import type { RawImage } from "@/lib/gpu/image";
+import { DEFAULT_MATTE_COLOR, parseHexColor } from "@/lib/pipeline/settings";
+import { embedImageMetadata, readImageMetadata, resetOrientation, type ImageMetadata } from "./metadata";
+import { EXPORT_FORMAT_OPTIONS, getExportFormat, type ExportFormat, type ExportSettings } from "./settings";
+
+// Encodes rendered pixels for export. PNG goes through the same pure JavaScript encoder as the engine
+// output; JPEG, WebP and AVIF use the browser's canvas encoders, which not every browser has.
+
+function createCanvas(width: number, height: number): OffscreenCanvas | HTMLCanvasElement {
+  if (typeof OffscreenCanvas !== "undefined") return new OffscreenCanvas(width, height);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function canvasToBlob(canvas: OffscreenCanvas | HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob | null> {
+  if ("convertToBlob" in canvas) return canvas.convertToBlob({ type: mimeType, quality });
+  return new Promise((resolve) => canvas.toBlob(resolve, mimeType, quality));
+}
+
+// Browsers fall back to PNG for types they cannot encode, so the blob type is the support check
+async function encodeWithCanvas(image: RawImage, format: ExportFormat, quality: number): Promise<Uint8Array> {
+  const { mimeType, label } = getExportFormat(format);
+  const canvas = createCanvas(image.width, image.height);
+  const context = canvas.getContext("2d") as OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D | null;
+  if (!context) throw new Error("Could not create a 2D canvas to encode the image");
+  context.putImageData(new ImageData(new Uint8ClampedArray(image.data), image.width, image.height), 0, 0);
+  const blob = await canvasToBlob(canvas, mimeType, quality / 100);
+  if (!blob || blob.type !== mimeType) throw new Error(`This browser cannot encode ${label}`);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+let supportedFormats: Promise<ExportFormat[]> | null = null;
+
+// Formats this browser can encode, in EXPORT_FORMAT_OPTIONS order; PNG always
+export function detectExportFormats(): Promise<ExportFormat[]> {
+  if (!supportedFormats) {
+    const probe: RawImage = { width: 1, height: 1, data: new Uint8Array(4) };
+    supportedFormats = Promise.all(
+      EXPORT_FORMAT_OPTIONS.map(async ({ value }) => {
+        if (value === "png") return true;
+        return encodeWithCanvas(probe, value, 90).then(() => true, () => false);
+      })
+    ).then((supported) => EXPORT_FORMAT_OPTIONS.filter((_, i) => supported[i]).map(({ value }) => value));
+  }
+  return supportedFormats;
+}
+
+// Composites straight-alpha pixels onto an opaque color, in the encoded values like the engine's matte
+function flattenOnto(image: RawImage, color: string): RawImage {
+  const [r, g, b] = parseHexColor(color).map((value) => value * 255);
+  const data = new Uint8Array(image.data.length);
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = image.data[i + 3] / 255;
+    data[i] = Math.round(r * (1 - alpha) + image.data[i] * alpha);
+    data[i + 1] = Math.round(g * (1 - alpha) + image.data[i + 1] * alpha);
+    data[i + 2] = Math.round(b * (1 - alpha) + image.data[i + 2] * alpha);
+    data[i + 3] = 255;
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+// Formats without an alpha channel are flattened onto `matte` (the pipeline's background, white when
+// it has none) first; the browser would composite transparent pixels onto black.
+export async function encodeExportImage(
+  image: RawImage,
+  settings: ExportSettings,
+  metadata: ImageMetadata = {},
+  matte: string | null = null
+): Promise<Uint8Array> {
+  if (!getExportFormat(settings.format).alpha) image = flattenOnto(image, matte ?? DEFAULT_MATTE_COLOR);
+  const encoded = settings.format === "png"
+    ? encodeImagePng(image)
+    : await encodeWithCanvas(image, settings.format, settings.quality);
+  return embedImageMetadata(encoded, metadata, image);
+}
+
+// What the export carries over from the source file. The engine treats sources as sRGB-encoded, so
+// the source profile only still describes the result when it is encoded back to sRGB. The browser
+// applies the EXIF orientation when decoding, so the result is upright and the tag is reset.
+export async function readCarriedMetadata(
+  source: Uint8Array,
+  settings: ExportSettings,
+  outputSpace: OutputSpace
+): Promise<ImageMetadata> {
+  const keepIcc = settings.keepIcc && outputSpace === "srgb";
+  if (!settings.keepExif && !keepIcc) return {};
+  const { exif, icc } = await readImageMetadata(source);
+  return { exif: settings.keepExif && exif ? resetOrientation(exif) : undefined, icc: keepIcc ? icc : undefined };
+}
+
+// The engine's own PNG can be exported as it is unless the settings ask for anything else
+export function needsReencoding(settings: ExportSettings): boolean {
+  return settings.format !== "png" || settings.keepExif || settings.keepIcc;
+}
@@ -0,0 +1,70 @@
+// Export file naming
+
+// Appends " (2)", " (3)"... before the extension until the name is not in `used`, then records it
+export function uniqueFileName(name: string, used: Set<string>): string {
+  const dot = name.lastIndexOf(".");
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : "";
+  let candidate = name;
+  for (let copy = 2; used.has(candidate.toLowerCase()); copy++) {
+    candidate = `${stem} (${copy})${extension}`;
+  }
+  // Case-insensitive, since the files may land on a case-insensitive file system
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+export interface FileNameValues {
+  // Source file name; its extension is dropped
+  name: string;
+  // Enabled filters of the pipeline
+  pipeline: string;
+  // Start of the export, so every file of a batch shares it
+  date: Date;
+  // 1-based position in the batch
+  index: number;
+  width: number;
+  height: number;
+  ext: string;
+}
+
+export const FILE_NAME_TOKENS = ["name", "pipeline", "date", "time", "index", "width", "height", "ext"] as const;
+
+const TOKEN = /\{([^{}]*)\}/g;
+// Reserved on Windows or as path separators, plus control characters
+const UNSAFE_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f]/g;
+
+function pad(value: number, length = 2): string {
+  return String(value).padStart(length, "0");
+}
+
+// Tokens that are not one of FILE_NAME_TOKENS, as "{token}"
+export function fileNameTemplateIssues(template: string): string[] {
+  const issues: string[] = [];
+  if (!template.trim()) issues.push("The file name template is empty");
+  for (const [match, token] of template.matchAll(TOKEN)) {
+    if (!(FILE_NAME_TOKENS as readonly string[]).includes(token)) issues.push(`Unknown token ${match}`);
+  }
+  return issues;
+}
+
+// Expands {name}, {pipeline}, {date} (YYYY-MM-DD), {time} (HHMMSS), {index}, {width}, {height} and
+// {ext}. Unknown tokens are kept as written; characters that are unsafe in file names become "_".
+export function renderFileName(template: string, values: FileNameValues): string {
+  const { date } = values;
+  const tokens: Record<string, string> = {
+    name: values.name.replace(/\.[^/.]+$/, ""),
+    pipeline: values.pipeline,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    index: String(values.index),
+    width: String(values.width),
+    height: String(values.height),
+    ext: values.ext,
+  };
+  const name = template
+    .replace(TOKEN, (match, token: string) => tokens[token] ?? match)
+    .replace(UNSAFE_CHARACTERS, "_")
+    .trim();
+  return name && name !== `.${values.ext}` ? name : `image.${values.ext}`;
+}
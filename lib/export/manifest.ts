@@ -0,0 +1,81 @@
+import type { Filter, ProcessingResult } from "@/lib/gpu/ReglSurface";
+import { serializePipeline, type PipelineDocument } from "@/lib/pipeline/document";
+import type { OutputSizePolicy } from "@/lib/pipeline/output-size";
+import type { PipelineSettings } from "@/lib/pipeline/settings";
+import type { ExportSettings } from "./settings";
+
+// manifest.json, written next to the images of a batch export: the pipeline that produced them, in the
+// same document format as a saved pipeline, and what each image cost to render
+
+export const MANIFEST_FILENAME = "manifest.json";
+
+export interface ExportedImage {
+  source: string;
+  // Name in the archive or folder; null when the image failed
+  file: string | null;
+  width: number;
+  height: number;
+  success: boolean;
+  error?: string;
+  gpuTimeMs?: number;
+  gpuTimeMeasured?: boolean;
+  totalTimeMs?: number;
+  tiles?: number;
+  backend?: string;
+  precision?: string;
+  stages?: { filterId: string; shader: string; gpuTimeMs: number; passes: number; cached: boolean }[];
+}
+
+export interface ExportManifest {
+  exportedAt: string;
+  pipeline: PipelineDocument;
+  outputSize: OutputSizePolicy;
+  export: ExportSettings;
+  images: ExportedImage[];
+}
+
+// Metrics of a render; results of exports without filters are just the copied file
+export function describeExportedImage(
+  source: string,
+  file: string | null,
+  size: { width: number; height: number },
+  result?: ProcessingResult
+): ExportedImage {
+  if (!result) return { source, file, ...size, success: file !== null };
+  return {
+    source,
+    file: result.success ? file : null,
+    ...size,
+    success: result.success,
+    ...(result.error ? { error: result.error } : {}),
+    gpuTimeMs: result.gpuTime,
+    gpuTimeMeasured: !!result.gpuTimeMeasured,
+    totalTimeMs: result.totalTime,
+    tiles: result.tiles,
+    backend: result.backend,
+    precision: result.precision,
+    stages: result.stageTimings?.map((stage) => ({
+      filterId: stage.filterId,
+      shader: stage.shader,
+      gpuTimeMs: stage.gpuTimeNs / 1e6,
+      passes: stage.passes,
+      cached: stage.cached,
+    })),
+  };
+}
+
+export function createExportManifest(
+  pipeline: Filter[],
+  settings: PipelineSettings,
+  outputSize: OutputSizePolicy,
+  exportSettings: ExportSettings,
+  images: ExportedImage[]
+): ExportManifest {
+  return {
+    exportedAt: new Date().toISOString(),
+    pipeline: serializePipeline(pipeline, settings),
+    outputSize,
+    export: exportSettings,
+    images,
+  };
+}
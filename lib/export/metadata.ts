@@ -0,0 +1,255 @@
+import { detectImageFormat } from "@/lib/gpu/codecs";
+import { crc32 } from "./zip";
+
+// EXIF and ICC carry-over. Only the containers are parsed: the EXIF block is copied as a whole (the
+// TIFF structure after the "Exif\0\0" header) and the ICC profile as raw bytes, so nothing in them is
+// interpreted except the orientation tag.
+
+export interface ImageMetadata {
+  exif?: Uint8Array;
+  icc?: Uint8Array;
+}
+
+const EXIF_HEADER = new TextEncoder().encode("Exif\0\0");
+const ICC_HEADER = new TextEncoder().encode("ICC_PROFILE\0");
+const ICC_PROFILE_NAME = new TextEncoder().encode("ICC Profile\0");
+// JPEG segment lengths are 16-bit and include the length field itself
+const MAX_SEGMENT_PAYLOAD = 0xffff - 2;
+const MAX_ICC_CHUNK = MAX_SEGMENT_PAYLOAD - ICC_HEADER.length - 2;
+
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+function startsWith(bytes: Uint8Array, prefix: Uint8Array, offset = 0): boolean {
+  return bytes.length >= offset + prefix.length && prefix.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function fourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+// iCCP profiles are zlib streams, which is what the "deflate" compression format produces
+async function transformBytes(data: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  const iccChunks: Uint8Array[] = [];
+  let iccCount = 0;
+  let offset = 2;
+  // Metadata segments precede the scan data
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const body = bytes.subarray(offset + 4, offset + 2 + length);
+    if (marker === 0xe1 && !metadata.exif && startsWith(body, EXIF_HEADER)) {
+      metadata.exif = body.slice(EXIF_HEADER.length);
+    } else if (marker === 0xe2 && startsWith(body, ICC_HEADER)) {
+      // Profiles larger than one segment are split into numbered chunks
+      const sequence = body[ICC_HEADER.length];
+      iccCount = body[ICC_HEADER.length + 1];
+      iccChunks[sequence - 1] = body.slice(ICC_HEADER.length + 2);
+    }
+    offset += 2 + length;
+  }
+  const chunks = Array.from({ length: iccCount }, (_, i) => iccChunks[i]);
+  if (iccCount > 0 && chunks.every(Boolean)) metadata.icc = concat(chunks);
+  return metadata;
+}
+
+async function readPngMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  const metadata: ImageMetadata = {};
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  for (let offset = 8; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    if (type === "IEND") break;
+    if (type === "eXIf") metadata.exif = data.slice();
+    if (type === "iCCP") {
+      // Profile name, a null separator, the compression method (always 0) and the zlib stream
+      const nameEnd = data.indexOf(0);
+      if (nameEnd >= 0) metadata.icc = await transformBytes(data.subarray(nameEnd + 2), new DecompressionStream("deflate"));
+    }
+    offset += 12 + length;
+  }
+  return metadata;
+}
+
+function readWebpChunks(bytes: Uint8Array): { type: string; data: Uint8Array }[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; data: Uint8Array }[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ type: fourCC(bytes, offset), data: bytes.subarray(offset + 8, offset + 8 + size) });
+    // Chunks are padded to an even size
+    offset += 8 + size + (size & 1);
+  }
+  return chunks;
+}
+
+function isWebp(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && fourCC(bytes, 0) === "RIFF" && fourCC(bytes, 8) === "WEBP";
+}
+
+function readWebpMetadata(bytes: Uint8Array): ImageMetadata {
+  const metadata: ImageMetadata = {};
+  for (const { type, data } of readWebpChunks(bytes)) {
+    // Some writers keep the JPEG-style header in front of the TIFF structure
+    if (type === "EXIF") metadata.exif = startsWith(data, EXIF_HEADER) ? data.slice(EXIF_HEADER.length) : data.slice();
+    if (type === "ICCP") metadata.icc = data.slice();
+  }
+  return metadata;
+}
+
+// A copy of the EXIF block with the orientation tag in IFD0 set to 1 (upright), for pixels that were
+// already rotated when they were decoded
+export function resetOrientation(exif: Uint8Array): Uint8Array {
+  const copy = exif.slice();
+  if (copy.length < 8) return copy;
+  const view = new DataView(copy.buffer);
+  const littleEndian = copy[0] === 0x49;
+  const ifd = view.getUint32(4, littleEndian);
+  if (ifd + 2 > copy.length) return copy;
+  const entries = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > copy.length) break;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) view.setUint16(entry + 8, 1, littleEndian);
+  }
+  return copy;
+}
+
+// EXIF and ICC profile of a PNG, JPEG or WebP file; other formats yield nothing
+export async function readImageMetadata(bytes: Uint8Array): Promise<ImageMetadata> {
+  switch (detectImageFormat(bytes)) {
+    case "jpeg":
+      return readJpegMetadata(bytes);
+    case "png":
+      return readPngMetadata(bytes);
+    default:
+      return isWebp(bytes) ? readWebpMetadata(bytes) : {};
+  }
+}
+
+function jpegSegment(marker: number, payload: Uint8Array): Uint8Array {
+  const header = new Uint8Array([0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]);
+  return concat([header, payload]);
+}
+
+function embedJpegMetadata(bytes: Uint8Array, { exif, icc }: ImageMetadata): Uint8Array {
+  const segments: Uint8Array[] = [];
+  // An EXIF block that does not fit one segment cannot be stored at all
+  if (exif && EXIF_HEADER.length + exif.length <= MAX_SEGMENT_PAYLOAD) {
+    segments.push(jpegSegment(0xe1, concat([EXIF_HEADER, exif])));
+  }
+  if (icc) {
+    const count = Math.ceil(icc.length / MAX_ICC_CHUNK);
+    if (count <= 255) {
+      for (let i = 0; i < count; i++) {
+        const chunk = icc.subarray(i * MAX_ICC_CHUNK, (i + 1) * MAX_ICC_CHUNK);
+        segments.push(jpegSegment(0xe2, concat([ICC_HEADER, new Uint8Array([i + 1, count]), chunk])));
+      }
+    }
+  }
+  // After the JFIF segment when there is one, which must come first
+  let insertAt = 2;
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) insertAt = 4 + ((bytes[4] << 8) | bytes[5]);
+  return concat([bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt)]);
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  chunk.set(new TextEncoder().encode(type), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+async function embedPngMetadata(bytes: Uint8Array, { exif, icc }: ImageMetadata): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = [];
+  if (icc) {
+    const compressed = await transformBytes(icc, new CompressionStream("deflate"));
+    chunks.push(pngChunk("iCCP", concat([ICC_PROFILE_NAME, new Uint8Array([0]), compressed])));
+  }
+  if (exif) chunks.push(pngChunk("eXIf", exif));
+  // Right after IHDR: iCCP has to precede the image data
+  const insertAt = 8 + 12 + new DataView(bytes.buffer, bytes.byteOffset).getUint32(8);
+  return concat([bytes.subarray(0, insertAt), ...chunks, bytes.subarray(insertAt)]);
+}
+
+function webpChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(8 + data.length + (data.length & 1));
+  chunk.set(new TextEncoder().encode(type), 0);
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+const VP8X_ICC = 0x20;
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+
+// Metadata needs the extended format: a VP8X header whose flags announce the ICCP and EXIF chunks
+function embedWebpMetadata(bytes: Uint8Array, { exif, icc }: ImageMetadata, width: number, height: number): Uint8Array {
+  const chunks = readWebpChunks(bytes).filter(({ type }) => type !== "ICCP" && type !== "EXIF");
+  let header = chunks[0]?.type === "VP8X" ? chunks.shift()!.data.slice() : null;
+  if (!header) {
+    header = new Uint8Array(10);
+    const view = new DataView(header.buffer);
+    view.setUint32(4, ((width - 1) & 0xffffff) | (((height - 1) & 0xff) << 24), true);
+    view.setUint16(8, (height - 1) >> 8, true);
+    // Lossless bitstreams say whether they use alpha; lossy ones with alpha are already extended
+    const image = chunks[0];
+    if (image?.type === "VP8L" && (image.data[4] >> 4) & 1) header[0] |= VP8X_ALPHA;
+  }
+  if (icc) header[0] |= VP8X_ICC;
+  if (exif) header[0] |= VP8X_EXIF;
+
+  const body = concat([
+    new TextEncoder().encode("WEBP"),
+    webpChunk("VP8X", header),
+    ...(icc ? [webpChunk("ICCP", icc)] : []),
+    ...chunks.map(({ type, data }) => webpChunk(type, data)),
+    ...(exif ? [webpChunk("EXIF", exif)] : []),
+  ]);
+  const riff = new Uint8Array(8);
+  riff.set(new TextEncoder().encode("RIFF"), 0);
+  new DataView(riff.buffer).setUint32(4, body.length, true);
+  return concat([riff, body]);
+}
+
+// Adds the metadata to an encoded PNG, JPEG or WebP; other formats (AVIF) are returned unchanged
+export async function embedImageMetadata(
+  bytes: Uint8Array,
+  metadata: ImageMetadata,
+  size: { width: number; height: number }
+): Promise<Uint8Array> {
+  if (!metadata.exif && !metadata.icc) return bytes;
+  switch (detectImageFormat(bytes)) {
+    case "jpeg":
+      return embedJpegMetadata(bytes, metadata);
+    case "png":
+      return embedPngMetadata(bytes, metadata);
+    default:
+      return isWebp(bytes) ? embedWebpMetadata(bytes, metadata, size.width, size.height) : bytes;
+  }
+}
@@ -0,0 +1,44 @@
+// How exported images are encoded and named
+
+export type ExportFormat = "png" | "jpeg" | "webp" | "avif";
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 1-100, for the lossy formats
+  quality: number;
+  // Copy the EXIF block and ICC profile of the source file into the export, where the format allows
+  keepExif: boolean;
+  keepIcc: boolean;
+  // See renderFileName in ./filename for the tokens
+  fileNameTemplate: string;
+}
+
+export const DEFAULT_FILE_NAME_TEMPLATE = "{name}_processed_{pipeline}.{ext}";
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: "png",
+  quality: 90,
+  keepExif: false,
+  keepIcc: false,
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+};
+
+export interface ExportFormatOption {
+  value: ExportFormat;
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+  alpha: boolean;
+}
+
+export const EXPORT_FORMAT_OPTIONS: ExportFormatOption[] = [
+  { value: "png", label: "PNG", mimeType: "image/png", extension: "png", lossy: false, alpha: true },
+  { value: "jpeg", label: "JPEG", mimeType: "image/jpeg", extension: "jpg", lossy: true, alpha: false },
+  { value: "webp", label: "WebP", mimeType: "image/webp", extension: "webp", lossy: true, alpha: true },
+  { value: "avif", label: "AVIF", mimeType: "image/avif", extension: "avif", lossy: true, alpha: true },
+];
+
+export function getExportFormat(format: ExportFormat): ExportFormatOption {
+  return EXPORT_FORMAT_OPTIONS.find((option) => option.value === format)!;
+}
@@ -0,0 +1,133 @@
+// Minimal streaming ZIP writer. Entries are stored uncompressed: exported PNGs and JPEGs are already
+// compressed, and storing keeps each entry a single pass over its bytes. Every entry is written to the
+// sink as soon as it is added, so an archive never has to fit in memory when the sink streams to disk.
+
+export type ZipSink = (chunk: Uint8Array) => Promise<void>;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP_VERSION = 20;
+// General purpose flag bit 11: names are UTF-8
+const UTF8_NAMES = 0x0800;
+// Without ZIP64 records, sizes and offsets are 32-bit and the entry count 16-bit
+const MAX_32BIT = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date and time, in local time with 2-second resolution
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+export class ZipWriter {
+  private entries: CentralEntry[] = [];
+  private names = new Set<string>();
+  private offset = 0;
+  private finished = false;
+
+  constructor(private sink: ZipSink) {}
+
+  // Names use "/" separators; adding the same name twice is an error
+  async addFile(name: string, data: Uint8Array, modified: Date = new Date()) {
+    if (this.finished) throw new Error("The ZIP archive is already finished");
+    if (this.names.has(name)) throw new Error(`Duplicate ZIP entry "${name}"`);
+    if (this.entries.length >= MAX_ENTRIES || this.offset + data.length + 30 + name.length * 3 > MAX_32BIT) {
+      throw new Error("ZIP archives are limited to 65535 files and 4 GB");
+    }
+
+    const encodedName = new TextEncoder().encode(name);
+    const entry: CentralEntry = { name: encodedName, crc: crc32(data), size: data.length, offset: this.offset, ...dosDateTime(modified) };
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+    header.setUint16(4, ZIP_VERSION, true);
+    header.setUint16(6, UTF8_NAMES, true);
+    header.setUint16(8, 0, true); // stored
+    header.setUint16(10, entry.time, true);
+    header.setUint16(12, entry.date, true);
+    header.setUint32(14, entry.crc, true);
+    header.setUint32(18, entry.size, true);
+    header.setUint32(22, entry.size, true);
+    header.setUint16(26, encodedName.length, true);
+    header.setUint16(28, 0, true);
+
+    this.names.add(name);
+    this.entries.push(entry);
+    await this.write(new Uint8Array(header.buffer));
+    await this.write(encodedName);
+    await this.write(data);
+  }
+
+  // Writes the central directory; the archive is complete once this resolves
+  async finish() {
+    if (this.finished) return;
+    this.finished = true;
+    const directoryOffset = this.offset;
+
+    for (const entry of this.entries) {
+      const header = new DataView(new ArrayBuffer(46));
+      header.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      header.setUint16(4, ZIP_VERSION, true);
+      header.setUint16(6, ZIP_VERSION, true);
+      header.setUint16(8, UTF8_NAMES, true);
+      header.setUint16(10, 0, true);
+      header.setUint16(12, entry.time, true);
+      header.setUint16(14, entry.date, true);
+      header.setUint32(16, entry.crc, true);
+      header.setUint32(20, entry.size, true);
+      header.setUint32(24, entry.size, true);
+      header.setUint16(28, entry.name.length, true);
+      // Extra field, comment, disk number, internal and external attributes stay 0
+      header.setUint32(42, entry.offset, true);
+      await this.write(new Uint8Array(header.buffer));
+      await this.write(entry.name);
+    }
+
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    end.setUint16(8, this.entries.length, true);
+    end.setUint16(10, this.entries.length, true);
+    end.setUint32(12, this.offset - directoryOffset, true);
+    end.setUint32(16, directoryOffset, true);
+    await this.write(new Uint8Array(end.buffer));
+  }
+
+  private async write(chunk: Uint8Array) {
+    await this.sink(chunk);
+    this.offset += chunk.length;
+  }
+}
@@ -0,0 +1,183 @@
+// Asynchronous collector for EXT_disjoint_timer_query (WebGL1) and
+// EXT_disjoint_timer_query_webgl2 results. Queries are resolved a few frames
+// after submission, so results come back as promises of nanoseconds, or null
+// when the GPU reported a disjoint event and the number cannot be trusted.
+
+import { isWebGL2, type GL } from "./formats";
+
+const POLL_INTERVAL_MS = 4;
+const MAX_WAIT_MS = 2000;
+
+interface PendingQuery {
+  query: WebGLQuery;
+  submittedAt: number;
+  resolve: (nanoseconds: number | null) => void;
+}
+
+// EXT_disjoint_timer_query_webgl2 only adds enums; queries go through the WebGL2 query API
+interface TimerQueryExtension {
+  readonly TIME_ELAPSED_EXT: GLenum;
+  readonly GPU_DISJOINT_EXT: GLenum;
+}
+
+// EXT_disjoint_timer_query (WebGL1) also brings its own query functions
+interface TimerQueryExtensionWebGL1 extends TimerQueryExtension {
+  readonly QUERY_RESULT_EXT: GLenum;
+  readonly QUERY_RESULT_AVAILABLE_EXT: GLenum;
+  createQueryEXT(): WebGLQuery | null;
+  deleteQueryEXT(query: WebGLQuery | null): void;
+  beginQueryEXT(target: GLenum, query: WebGLQuery): void;
+  endQueryEXT(target: GLenum): void;
+  getQueryObjectEXT(query: WebGLQuery, pname: GLenum): number | boolean;
+}
+
+export class GpuTimer {
+  private pending: PendingQuery[] = [];
+  private pollHandle: ReturnType<typeof setTimeout> | null = null;
+  private active: WebGLQuery | null = null;
+
+  private constructor(
+    private gl: GL,
+    private ext: TimerQueryExtension,
+    private webgl2: boolean
+  ) {}
+
+  static create(gl: GL): GpuTimer | null {
+    if (isWebGL2(gl)) {
+      const ext: TimerQueryExtension | null = gl.getExtension('EXT_disjoint_timer_query_webgl2');
+      return ext ? new GpuTimer(gl, ext, true) : null;
+    }
+    const ext: TimerQueryExtensionWebGL1 | null = gl.getExtension('EXT_disjoint_timer_query_webgl') ||
+                gl.getExtension('EXT_disjoint_timer_query');
+    return ext ? new GpuTimer(gl, ext, false) : null;
+  }
+
+  // Only valid when !webgl2
+  private get ext1(): TimerQueryExtensionWebGL1 {
+    return this.ext as TimerQueryExtensionWebGL1;
+  }
+
+  get version(): string {
+    return this.webgl2 ? 'EXT_disjoint_timer_query_webgl2' : 'EXT_disjoint_timer_query';
+  }
+
+  begin() {
+    if (this.active) throw new Error('GPU timer query already in progress');
+
+    // Reading GPU_DISJOINT_EXT resets the flag, so stale disjoint events don't poison this query. The
+    // event also invalidates the queries still in flight, which poll() can no longer detect.
+    if (this.isDisjoint()) this.settleAll(null);
+
+    const query = this.webgl2
+      ? (this.gl as WebGL2RenderingContext).createQuery()
+      : this.ext1.createQueryEXT();
+    if (!query) throw new Error('Failed to create timer query');
+
+    if (this.webgl2) {
+      (this.gl as WebGL2RenderingContext).beginQuery(this.ext.TIME_ELAPSED_EXT, query);
+    } else {
+      this.ext1.beginQueryEXT(this.ext.TIME_ELAPSED_EXT, query);
+    }
+    this.active = query;
+  }
+
+  // Ends the current query; the promise resolves once the result is available
+  end(): Promise<number | null> {
+    const query = this.active;
+    if (!query) throw new Error('No GPU timer query in progress');
+    this.active = null;
+
+    if (this.webgl2) {
+      (this.gl as WebGL2RenderingContext).endQuery(this.ext.TIME_ELAPSED_EXT);
+    } else {
+      this.ext1.endQueryEXT(this.ext.TIME_ELAPSED_EXT);
+    }
+
+    return new Promise(resolve => {
+      this.pending.push({ query, submittedAt: performance.now(), resolve });
+      this.schedulePoll();
+    });
+  }
+
+  private isDisjoint(): boolean {
+    return !!this.gl.getParameter(this.ext.GPU_DISJOINT_EXT);
+  }
+
+  private isAvailable(query: WebGLQuery): boolean {
+    if (this.webgl2) {
+      const gl = this.gl as WebGL2RenderingContext;
+      return !!gl.getQueryParameter(query, gl.QUERY_RESULT_AVAILABLE);
+    }
+    return !!this.ext1.getQueryObjectEXT(query, this.ext1.QUERY_RESULT_AVAILABLE_EXT);
+  }
+
+  private readResult(query: WebGLQuery): number {
+    if (this.webgl2) {
+      const gl = this.gl as WebGL2RenderingContext;
+      return gl.getQueryParameter(query, gl.QUERY_RESULT);
+    }
+    return this.ext1.getQueryObjectEXT(query, this.ext1.QUERY_RESULT_EXT) as number;
+  }
+
+  private deleteQuery(query: WebGLQuery) {
+    if (this.webgl2) {
+      (this.gl as WebGL2RenderingContext).deleteQuery(query);
+    } else {
+      this.ext1.deleteQueryEXT(query);
+    }
+  }
+
+  private schedulePoll() {
+    if (this.pollHandle !== null) return;
+    this.pollHandle = setTimeout(() => {
+      this.pollHandle = null;
+      this.poll();
+    }, POLL_INTERVAL_MS);
+  }
+
+  private poll() {
+    // A disjoint event invalidates every query that was in flight
+    if (this.isDisjoint()) {
+      this.settleAll(null);
+      return;
+    }
+
+    const now = performance.now();
+    const stillPending: PendingQuery[] = [];
+
+    // Queries complete in submission order, so stop at the first one that isn't ready
+    let blocked = false;
+    for (const entry of this.pending) {
+      if (!blocked && this.isAvailable(entry.query)) {
+        entry.resolve(this.readResult(entry.query));
+        this.deleteQuery(entry.query);
+      } else if (now - entry.submittedAt > MAX_WAIT_MS) {
+        blocked = true;
+        entry.resolve(null);
+        this.deleteQuery(entry.query);
+      } else {
+        blocked = true;
+        stillPending.push(entry);
+      }
+    }
+
+    this.pending = stillPending;
+    if (this.pending.length > 0) this.schedulePoll();
+  }
+
+  private settleAll(nanoseconds: number | null) {
+    this.pending.forEach(entry => {
+      entry.resolve(nanoseconds);
+      this.deleteQuery(entry.query);
+    });
+    this.pending = [];
+  }
+
+  destroy() {
+    if (this.pollHandle !== null) clearTimeout(this.pollHandle);
+    this.pollHandle = null;
+    if (this.active) this.deleteQuery(this.active);
+    this.active = null;
+    this.settleAll(null);
+  }
+}
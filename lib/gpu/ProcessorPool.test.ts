@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { ProcessorPool } from "./ProcessorPool";
+import type { WebGLProcessor } from "./WebGLProcessor";
+
+// Only destroy() is called by the pool itself
+function createFakeProcessor() {
+  let destroyed = false;
+  const processor = {
+    destroy: () => {
+      destroyed = true;
+    },
+  } as unknown as WebGLProcessor;
+  return { processor, isDestroyed: () => destroyed };
+}
+
+function createPool(maxSize: number) {
+  const created: ReturnType<typeof createFakeProcessor>[] = [];
+  const pool = new ProcessorPool(maxSize, () => {
+    const fake = createFakeProcessor();
+    created.push(fake);
+    return fake.processor;
+  });
+  return { pool, created };
+}
+
+describe("ProcessorPool", () => {
+  it("creates processors up to its size and hands released ones to waiters", async () => {
+    const { pool, created } = createPool(1);
+    const first = await pool.acquire();
+    const waiting = pool.acquire();
+    pool.release(first);
+    assert.equal(await waiting, first);
+    assert.equal(created.length, 1);
+  });
+
+  it("rejects pending acquires on destroy", async () => {
+    const { pool } = createPool(1);
+    await pool.acquire();
+    const waiting = pool.acquire();
+    pool.destroy();
+    await assert.rejects(waiting, /destroyed/);
+  });
+
+  it("rejects acquires after destroy", async () => {
+    const { pool } = createPool(1);
+    pool.destroy();
+    await assert.rejects(pool.acquire(), /destroyed/);
+  });
+
+  it("destroys processors in use and does not take them back on release", async () => {
+    const { pool, created } = createPool(2);
+    const processor = await pool.acquire();
+    pool.destroy();
+    assert.equal(created[0].isDestroyed(), true);
+
+    pool.release(processor);
+    assert.equal(pool.size, 0);
+    await assert.rejects(pool.acquire(), /destroyed/);
+  });
+});
@@ -0,0 +1,77 @@
+import { WebGLProcessor, createCanvasSurface } from "./WebGLProcessor";
+
+// Browsers cap the number of live WebGL contexts (usually 8-16), so batch work shares a few processors
+const DEFAULT_POOL_SIZE = 2;
+
+function createCanvasProcessor(): WebGLProcessor {
+  return new WebGLProcessor(createCanvasSurface(document.createElement('canvas')));
+}
+
+function poolDestroyedError(): Error {
+  return new Error('Processor pool was destroyed');
+}
+
+export class ProcessorPool {
+  private idle: WebGLProcessor[] = [];
+  private all: WebGLProcessor[] = [];
+  private waiters: { resolve: (processor: WebGLProcessor) => void; reject: (error: Error) => void }[] = [];
+  private destroyed = false;
+
+  // `create` builds a processor on demand; by default a browser canvas processor
+  constructor(
+    private maxSize: number = DEFAULT_POOL_SIZE,
+    private create: () => WebGLProcessor = createCanvasProcessor
+  ) {}
+
+  get size(): number {
+    return this.all.length;
+  }
+
+  async acquire(): Promise<WebGLProcessor> {
+    if (this.destroyed) throw poolDestroyedError();
+    const idle = this.idle.pop();
+    if (idle) return idle;
+
+    if (this.all.length < this.maxSize) {
+      const processor = this.create();
+      this.all.push(processor);
+      return processor;
+    }
+
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  release(processor: WebGLProcessor) {
+    // destroy() already destroyed every processor, including the ones still in use
+    if (this.destroyed) return;
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      waiter.resolve(processor);
+    } else {
+      this.idle.push(processor);
+    }
+  }
+
+  // Convenience wrapper that always hands the processor back, even if the task throws
+  async use<T>(task: (processor: WebGLProcessor) => Promise<T> | T): Promise<T> {
+    const processor = await this.acquire();
+    try {
+      return await task(processor);
+    } finally {
+      this.release(processor);
+    }
+  }
+
+  // Destroys every processor, including those still in use, and rejects pending and later acquire() calls
+  destroy() {
+    this.destroyed = true;
+    this.all.forEach(processor => processor.destroy());
+    this.all = [];
+    this.idle = [];
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach(waiter => waiter.reject(poolDestroyedError()));
+  }
+}
+
+export const sharedProcessorPool = new ProcessorPool();
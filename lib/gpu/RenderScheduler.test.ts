@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RenderScheduler } from "./RenderScheduler";
+
+// Animation frames only run when a test calls runFrame(), so every step is explicit
+let frames = new Map<number, FrameRequestCallback>();
+let nextFrame = 1;
+
+function runFrame() {
+  const callbacks = [...frames.values()];
+  frames = new Map();
+  callbacks.forEach(callback => callback(0));
+}
+
+// Lets settled render promises reach the scheduler
+function settle() {
+  return new Promise<void>(resolve => setImmediate(resolve));
+}
+
+interface Call {
+  request: string;
+  signal: AbortSignal;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// A render task whose calls stay pending until the test resolves or rejects them
+function deferredRender() {
+  const calls: Call[] = [];
+  const render = (request: string, signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      calls.push({ request, signal, resolve, reject });
+    });
+  return { calls, render };
+}
+
+function createScheduler() {
+  const { calls, render } = deferredRender();
+  const results: [string, string][] = [];
+  const scheduler = new RenderScheduler<string, string>(render, (result, request) => {
+    results.push([result, request]);
+  });
+  return { scheduler, calls, results };
+}
+
+describe("RenderScheduler", () => {
+  beforeEach(() => {
+    frames = new Map();
+    globalThis.requestAnimationFrame = callback => {
+      frames.set(nextFrame, callback);
+      return nextFrame++;
+    };
+    globalThis.cancelAnimationFrame = handle => {
+      frames.delete(handle);
+    };
+  });
+
+  afterEach(() => {
+    Reflect.deleteProperty(globalThis, "requestAnimationFrame");
+    Reflect.deleteProperty(globalThis, "cancelAnimationFrame");
+  });
+
+  it("coalesces requests made before the next frame into one render of the latest", async () => {
+    const { scheduler, calls, results } = createScheduler();
+    scheduler.schedule("a");
+    scheduler.schedule("b");
+    scheduler.schedule("c");
+    assert.equal(calls.length, 0);
+    assert.equal(frames.size, 1);
+
+    runFrame();
+    assert.deepEqual(calls.map(call => call.request), ["c"]);
+
+    calls[0].resolve("C");
+    await settle();
+    assert.deepEqual(results, [["C", "c"]]);
+    assert.equal(frames.size, 0);
+  });
+
+  it("aborts the running render when a newer request supersedes it", async () => {
+    const { scheduler, calls } = createScheduler();
+    scheduler.schedule("a");
+    runFrame();
+    scheduler.schedule("b");
+    assert.equal(calls[0].signal.aborted, true);
+  });
+
+  it("runs one render at a time, starting the latest request once the running one settles", async () => {
+    const { scheduler, calls, results } = createScheduler();
+    scheduler.schedule("a");
+    runFrame();
+    scheduler.schedule("b");
+    scheduler.schedule("c");
+    assert.equal(frames.size, 0);
+
+    calls[0].reject(calls[0].signal.reason);
+    await settle();
+    assert.equal(frames.size, 1);
+
+    runFrame();
+    assert.deepEqual(calls.map(call => call.request), ["a", "c"]);
+    assert.equal(calls[1].signal.aborted, false);
+
+    calls[1].resolve("C");
+    await settle();
+    assert.deepEqual(results, [["C", "c"]]);
+  });
+
+  it("drops the result of a superseded render that ignores the abort", async () => {
+    const { scheduler, calls, results } = createScheduler();
+    scheduler.schedule("a");
+    runFrame();
+    scheduler.schedule("b");
+
+    calls[0].resolve("A");
+    await settle();
+    assert.deepEqual(results, []);
+
+    runFrame();
+    calls[1].resolve("B");
+    await settle();
+    assert.deepEqual(results, [["B", "b"]]);
+  });
+
+  it("keeps rendering after a failed render", async (t) => {
+    const logged = t.mock.method(console, "error", () => {});
+    const { scheduler, calls, results } = createScheduler();
+    scheduler.schedule("a");
+    runFrame();
+    calls[0].reject(new Error("lost context"));
+    await settle();
+    assert.equal(logged.mock.callCount(), 1);
+
+    scheduler.schedule("b");
+    runFrame();
+    calls[1].resolve("B");
+    await settle();
+    assert.deepEqual(results, [["B", "b"]]);
+  });
+
+  it("does not log aborted renders", async (t) => {
+    const logged = t.mock.method(console, "error", () => {});
+    const { scheduler, calls } = createScheduler();
+    scheduler.schedule("a");
+    runFrame();
+    scheduler.schedule("b");
+    calls[0].reject(calls[0].signal.reason);
+    await settle();
+    assert.equal(logged.mock.callCount(), 0);
+  });
+
+  it("aborts the running render and delivers nothing after destroy", async () => {
+    const { scheduler, calls, results } = createScheduler();
+    scheduler.schedule("a");
+    runFrame();
+    scheduler.schedule("b");
+    scheduler.destroy();
+    assert.equal(calls[0].signal.aborted, true);
+
+    calls[0].resolve("A");
+    await settle();
+    scheduler.schedule("c");
+    assert.equal(frames.size, 0);
+    assert.deepEqual(results, []);
+  });
+
+  it("cancels a requested frame on destroy", () => {
+    const { scheduler, calls } = createScheduler();
+    scheduler.schedule("a");
+    scheduler.destroy();
+    assert.equal(frames.size, 0);
+    runFrame();
+    assert.equal(calls.length, 0);
+  });
+});
@@ -0,0 +1,64 @@
+// Serializes live-preview renders. Requests are coalesced to the next animation frame and at most one
+// render runs at a time; a new request aborts the running render, and requests made before it settles
+// replace each other, so only the latest one runs next. Results are delivered only for the latest
+// request, which makes the newest state always win, however long earlier renders take.
+
+export type RenderTask<T, R> = (request: T, signal: AbortSignal) => Promise<R>;
+
+export class RenderScheduler<T, R> {
+  private pending: { request: T } | null = null;
+  private frame: number | null = null;
+  private running: AbortController | null = null;
+  // Bumped by every schedule(), so a finished render can tell whether it was superseded
+  private generation = 0;
+  private destroyed = false;
+
+  constructor(
+    private render: RenderTask<T, R>,
+    private onResult: (result: R, request: T) => void
+  ) {}
+
+  schedule(request: T) {
+    if (this.destroyed) return;
+    this.generation++;
+    this.pending = { request };
+    // Its result would be dropped anyway; the next frame is requested once it settles
+    this.running?.abort();
+    if (this.frame === null && !this.running) this.requestFrame();
+  }
+
+  // Drops the pending request and aborts the running render; nothing is delivered afterwards
+  destroy() {
+    this.destroyed = true;
+    this.pending = null;
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+    this.running?.abort();
+  }
+
+  private requestFrame() {
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      void this.flush();
+    });
+  }
+
+  private async flush() {
+    if (!this.pending) return;
+    const { request } = this.pending;
+    const generation = this.generation;
+    this.pending = null;
+    const controller = new AbortController();
+    this.running = controller;
+
+    try {
+      const result = await this.render(request, controller.signal);
+      if (generation === this.generation && !this.destroyed) this.onResult(result, request);
+    } catch (error) {
+      if (!controller.signal.aborted) console.error('Render error:', error);
+    } finally {
+      this.running = null;
+      if (this.pending && !this.destroyed) this.requestFrame();
+    }
+  }
+}
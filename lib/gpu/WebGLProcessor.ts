@@ -0,0 +1,599 @@
+import { basicVertexShader, matteShader, passthroughShader } from "./shaders";
+import { GpuTimer } from "./GpuTimer";
+import { UniformBindingError, bindUniforms, introspectUniforms, type UniformInfo, type UniformValue } from "./uniforms";
+import type { OutputSpace } from "./color";
+import type { TileRect } from "./tiling";
+import { detectTargetFormats, isWebGL2, resolvePrecision, type GL, type RenderPrecision, type TargetFormat } from "./formats";
+import { flipRows, isRawImage, type RawImage, type TextureData } from "./image";
+
+// What the processor draws into: a canvas in the browser, a headless GL context in Node
+export interface RenderSurface {
+  readonly gl: GL;
+  readonly width: number;
+  readonly height: number;
+  resize(width: number, height: number): void;
+  // Releases the context itself, for surfaces that are not garbage collected with a canvas
+  destroy?(): void;
+}
+
+// Every surface is created with these, so all backends present and read back the same way
+export const CONTEXT_ATTRIBUTES: WebGLContextAttributes = {
+  preserveDrawingBuffer: true,
+  antialias: false,
+  alpha: true,
+  depth: false,
+  stencil: false,
+  premultipliedAlpha: false
+};
+
+// An OffscreenCanvas works the same way, which is how the engine worker renders
+export function createCanvasSurface(canvas: HTMLCanvasElement | OffscreenCanvas): RenderSurface {
+  const getContext = (type: string) => (canvas as HTMLCanvasElement).getContext(type, CONTEXT_ATTRIBUTES) as GL | null;
+  // WebGL2 first for sized float formats; the filter shaders are GLSL ES 1.0 and run on both
+  const gl = getContext('webgl2') ?? getContext('webgl') ?? getContext('experimental-webgl');
+
+  if (!gl) {
+    throw new Error('WebGL not supported');
+  }
+
+  return {
+    gl,
+    get width() {
+      return canvas.width;
+    },
+    get height() {
+      return canvas.height;
+    },
+    resize(width: number, height: number) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+  };
+}
+
+export interface RenderTarget {
+  framebuffer: WebGLFramebuffer;
+  texture: WebGLTexture;
+  width: number;
+  height: number;
+  format: TargetFormat;
+}
+
+// Where a stage samples from: the source image, the output of an earlier stage, or an auxiliary image
+export type StageSource =
+  | { type: 'source' }
+  | { type: 'stage'; index: number }
+  | { type: 'auxiliary'; key: string };
+
+export interface StageInput {
+  // sampler2D uniform receiving the texture, e.g. u_image
+  uniform: string;
+  source: StageSource;
+}
+
+export interface RenderStage {
+  // Identifies the shader, uniforms and inputs of a stage; an unchanged key means the cached output is still valid
+  key: string;
+  // Human-readable name used in error messages
+  label: string;
+  fragmentShader: string;
+  uniforms: { [key: string]: UniformValue };
+  // Stages may only read from stages before them, which keeps the graph acyclic
+  inputs: StageInput[];
+}
+
+export interface FilterTiming {
+  // CPU wall time around the draw; only an estimate of GPU work
+  wallTime: number;
+  // Resolves to the measured GPU nanoseconds, or null when no trustworthy result exists
+  gpuNanoseconds: Promise<number | null> | null;
+}
+
+export interface PresentOptions {
+  // 0-1 RGB background to flatten onto; null or absent keeps the alpha channel
+  matte?: [number, number, number] | null;
+}
+
+export interface PipelineRunStats {
+  // One entry per stage; null when the stage output was reused from a previous run
+  stageTimings: (FilterTiming | null)[];
+  presentTiming: FilterTiming;
+  executedStages: number;
+  reusedStages: number;
+}
+
+export class WebGLProcessor {
+  readonly surface: RenderSurface;
+  readonly backend: 'webgl2' | 'webgl';
+  private gl: GL;
+  private formats: Map<RenderPrecision, TargetFormat>;
+  private targetFormat: TargetFormat;
+  // Whether fragment shaders can be promoted to highp for float targets
+  private highpFragment: boolean;
+  private programs: Map<string, WebGLProgram> = new Map();
+  private programUniforms: Map<WebGLProgram, Map<string, UniformInfo>> = new Map();
+  private positionBuffer: WebGLBuffer | null = null;
+  private indexBuffer: WebGLBuffer | null = null;
+  private timer: GpuTimer | null = null;
+
+  // Long-lived state kept across renders
+  private sourceKey: string | null = null;
+  private sourceTexture: WebGLTexture | null = null;
+  private auxiliarySources: Map<string, { version: string; texture: WebGLTexture }> = new Map();
+  private stageTargets: RenderTarget[] = [];
+  private stageKeys: string[] = [];
+
+  constructor(surface: RenderSurface) {
+    console.log("🎮 Initializing WebGL context...");
+
+    const gl = surface.gl;
+    this.surface = surface;
+    this.gl = gl;
+    this.backend = isWebGL2(gl) ? 'webgl2' : 'webgl';
+    this.formats = detectTargetFormats(gl);
+    this.targetFormat = this.formats.get('unorm8')!;
+    const highp = gl.getShaderPrecisionFormat(gl.FRAGMENT_SHADER, gl.HIGH_FLOAT);
+    this.highpFragment = !!highp && highp.precision > 0;
+
+    // Try to get timer extension for accurate GPU timing
+    this.timer = GpuTimer.create(gl);
+
+    console.log("✅ WebGL context created");
+    console.log("  - Version:", gl.getParameter(gl.VERSION));
+    console.log("  - Renderer:", gl.getParameter(gl.RENDERER));
+    console.log("  - Vendor:", gl.getParameter(gl.VENDOR));
+    console.log("  - Timer extension:", this.timer ? this.timer.version : "Not available");
+    console.log("  - Render targets:", Array.from(this.formats.values()).map(format => format.label).join(", "));
+
+    this.setupGeometry();
+  }
+
+  private setupGeometry() {
+    const gl = this.gl;
+
+    this.positionBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+    const positions = new Float32Array([
+      -1, -1,
+       1, -1,
+       1,  1,
+      -1,  1
+    ]);
+    gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
+
+    this.indexBuffer = gl.createBuffer();
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    const indices = new Uint16Array([0, 1, 2, 2, 3, 0]);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, indices, gl.STATIC_DRAW);
+
+    console.log("✅ Geometry buffers created");
+  }
+
+  private compileShader(source: string, type: number): WebGLShader {
+    const gl = this.gl;
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create shader');
+
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+      const error = gl.getShaderInfoLog(shader);
+      gl.deleteShader(shader);
+      throw new Error(`Shader compilation error: ${error}`);
+    }
+
+    return shader;
+  }
+
+  private createProgram(vertexSource: string, fragmentSource: string): WebGLProgram {
+    const gl = this.gl;
+
+    const vertexShader = this.compileShader(vertexSource, gl.VERTEX_SHADER);
+    const fragmentShader = this.compileShader(fragmentSource, gl.FRAGMENT_SHADER);
+
+    const program = gl.createProgram();
+    if (!program) throw new Error('Failed to create program');
+
+    gl.attachShader(program, vertexShader);
+    gl.attachShader(program, fragmentShader);
+    gl.linkProgram(program);
+
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+      const error = gl.getProgramInfoLog(program);
+      gl.deleteProgram(program);
+      throw new Error(`Program linking error: ${error}`);
+    }
+
+    gl.deleteShader(vertexShader);
+    gl.deleteShader(fragmentShader);
+
+    return program;
+  }
+
+  // mediump is often fp16 on mobile GPUs, which would throw away the extra bits of float targets
+  private prepareShader(fragmentShader: string): string {
+    if (this.targetFormat.precision !== 'float' || !this.highpFragment) return fragmentShader;
+    return fragmentShader.replace(/precision\s+mediump\s+float\s*;/, 'precision highp float;');
+  }
+
+  private getProgram(fragmentShader: string): WebGLProgram {
+    const source = this.prepareShader(fragmentShader);
+    if (!this.programs.has(source)) {
+      const program = this.createProgram(basicVertexShader, source);
+      this.programs.set(source, program);
+      this.programUniforms.set(program, introspectUniforms(this.gl, program));
+      console.log("✅ Shader program compiled and cached");
+    }
+    return this.programs.get(source)!;
+  }
+
+  get precision(): RenderPrecision {
+    return this.targetFormat.precision;
+  }
+
+  get targetFormatLabel(): string {
+    return this.targetFormat.label;
+  }
+
+  getSupportedPrecisions(): RenderPrecision[] {
+    return Array.from(this.formats.keys());
+  }
+
+  // Selects the intermediate format, falling back when the requested one is not renderable here.
+  // Returns the precision actually in use.
+  setPrecision(requested: RenderPrecision): RenderPrecision {
+    const format = resolvePrecision(requested, this.formats);
+    if (format !== this.targetFormat) {
+      this.targetFormat = format;
+      this.invalidateStages();
+    }
+    return format.precision;
+  }
+
+  // Tags the drawing buffer so the browser (and exported PNGs) interpret the presented values in this
+  // space. Returns the space actually used: contexts without drawingBufferColorSpace only present sRGB.
+  setOutputSpace(space: OutputSpace): OutputSpace {
+    const gl = this.gl;
+    if (!('drawingBufferColorSpace' in gl)) return 'srgb';
+    if (gl.drawingBufferColorSpace !== space) gl.drawingBufferColorSpace = space;
+    return space;
+  }
+
+  // Largest square the context can upload, render into and present in one piece
+  getMaxTileSize(): number {
+    const gl = this.gl;
+    const viewport = gl.getParameter(gl.MAX_VIEWPORT_DIMS) as Int32Array;
+    return Math.min(
+      gl.getParameter(gl.MAX_TEXTURE_SIZE) as number,
+      gl.getParameter(gl.MAX_RENDERBUFFER_SIZE) as number,
+      viewport[0],
+      viewport[1]
+    );
+  }
+
+  getMaxTextureSize(): number {
+    return this.gl.getParameter(this.gl.MAX_TEXTURE_SIZE) as number;
+  }
+
+  // Resizes the drawing buffer; cached stage outputs are dropped when the size changes
+  resize(width: number, height: number) {
+    if (this.surface.width === width && this.surface.height === height) return;
+    this.surface.resize(width, height);
+    this.invalidateStages();
+
+    // Browsers may silently allocate a smaller drawing buffer than requested when memory is tight
+    if (this.gl.drawingBufferWidth !== width || this.gl.drawingBufferHeight !== height) {
+      throw new Error(
+        `Drawing buffer is ${this.gl.drawingBufferWidth}x${this.gl.drawingBufferHeight}, ${width}x${height} was requested`
+      );
+    }
+  }
+
+  hasSource(key: string): boolean {
+    return this.sourceKey === key && this.sourceTexture !== null;
+  }
+
+  // Uploads the source image once; later renders with the same key reuse the texture
+  setSource(key: string, image: TextureData) {
+    if (this.hasSource(key)) return;
+
+    if (this.sourceTexture) this.gl.deleteTexture(this.sourceTexture);
+    this.sourceTexture = null;
+    this.sourceKey = null;
+
+    this.sourceTexture = this.uploadTexture(image);
+    this.sourceKey = key;
+    this.invalidateStages();
+  }
+
+  hasAuxiliarySource(key: string, version: string): boolean {
+    return this.auxiliarySources.get(key)?.version === version;
+  }
+
+  // Uploads a secondary input such as a blend layer under a stable key (stage inputs refer to the key).
+  // A new version replaces the texture and drops cached stages, since any of them may sample it.
+  setAuxiliarySource(key: string, version: string, image: TextureData) {
+    if (this.hasAuxiliarySource(key, version)) return;
+
+    const previous = this.auxiliarySources.get(key);
+    if (previous) this.gl.deleteTexture(previous.texture);
+    this.auxiliarySources.set(key, { version, texture: this.uploadTexture(image) });
+    this.invalidateStages();
+  }
+
+  // Frees auxiliary textures the current pipeline no longer references
+  retainAuxiliarySources(keys: Iterable<string>) {
+    const keep = new Set(keys);
+    this.auxiliarySources.forEach((auxiliary, key) => {
+      if (keep.has(key)) return;
+      this.gl.deleteTexture(auxiliary.texture);
+      this.auxiliarySources.delete(key);
+    });
+  }
+
+  // Textures store the bottom row first, like the framebuffers they are drawn into
+  private uploadTexture(image: TextureData): WebGLTexture {
+    const gl = this.gl;
+    const texture = gl.createTexture();
+    if (!texture) throw new Error('Failed to create texture');
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+
+    if (isRawImage(image)) {
+      // Flipped on the CPU: not every implementation honors UNPACK_FLIP_Y_WEBGL for buffer uploads
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, image.width, image.height, 0, gl.RGBA, gl.UNSIGNED_BYTE, flipRows(image).data);
+    } else {
+      // Ignored for ImageBitmaps, which canvas-source decodes bottom row first instead
+      gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true);
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+    }
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    return texture;
+  }
+
+  createFramebuffer(width: number, height: number, format: TargetFormat = this.targetFormat): RenderTarget {
+    const gl = this.gl;
+
+    const texture = gl.createTexture();
+    if (!texture) throw new Error('Failed to create framebuffer texture');
+
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+
+    gl.texImage2D(gl.TEXTURE_2D, 0, format.internalFormat, width, height, 0, format.format, format.type, null);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, format.filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, format.filter);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    const framebuffer = gl.createFramebuffer();
+    if (!framebuffer) throw new Error('Failed to create framebuffer');
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      gl.deleteFramebuffer(framebuffer);
+      gl.deleteTexture(texture);
+      throw new Error('Framebuffer not complete');
+    }
+
+    return { framebuffer, texture, width, height, format };
+  }
+
+  private deleteTarget(target: RenderTarget) {
+    this.gl.deleteFramebuffer(target.framebuffer);
+    this.gl.deleteTexture(target.texture);
+  }
+
+  private invalidateStages() {
+    this.stageKeys = [];
+  }
+
+  // Keeps exactly one render target per stage, reallocating only on size or format changes
+  private ensureStageTargets(count: number, width: number, height: number) {
+    this.stageTargets = this.stageTargets.filter(target => {
+      if (target.width === width && target.height === height && target.format === this.targetFormat) return true;
+      this.deleteTarget(target);
+      return false;
+    });
+    while (this.stageTargets.length > count) {
+      this.deleteTarget(this.stageTargets.pop()!);
+    }
+    while (this.stageTargets.length < count) {
+      this.stageTargets.push(this.createFramebuffer(width, height));
+    }
+  }
+
+  // Binds each input to its own texture unit, in order, and points its sampler uniform at that unit
+  renderFilter(
+    inputs: { uniform: string; texture: WebGLTexture }[],
+    fragmentShader: string,
+    uniforms: { [key: string]: UniformValue },
+    framebuffer: WebGLFramebuffer | null,
+    width: number,
+    height: number
+  ): FilterTiming {
+    const gl = this.gl;
+    const program = this.getProgram(fragmentShader);
+    gl.useProgram(program);
+
+    // Bind and validate before starting the timer so a mismatch never leaves a query open
+    const samplers: { [key: string]: UniformValue } = {};
+    inputs.forEach((input, unit) => {
+      samplers[input.uniform] = unit;
+    });
+    const issues = bindUniforms(gl, this.programUniforms.get(program)!, { ...uniforms, ...samplers });
+    if (issues.length > 0) {
+      throw new UniformBindingError('Uniform mismatch', issues);
+    }
+
+    // Start GPU timer if available
+    const startTime = performance.now();
+    this.timer?.begin();
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.viewport(0, 0, width, height);
+
+    const positionLocation = gl.getAttribLocation(program, 'a_position');
+    gl.bindBuffer(gl.ARRAY_BUFFER, this.positionBuffer);
+    gl.enableVertexAttribArray(positionLocation);
+    gl.vertexAttribPointer(positionLocation, 2, gl.FLOAT, false, 0, 0);
+
+    inputs.forEach((input, unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, input.texture);
+    });
+    gl.activeTexture(gl.TEXTURE0);
+
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, this.indexBuffer);
+    gl.drawElements(gl.TRIANGLES, 6, gl.UNSIGNED_SHORT, 0);
+
+    // End GPU timer; the result is collected asynchronously
+    const gpuNanoseconds = this.timer ? this.timer.end() : null;
+
+    // Without a timer query, force GPU completion so the wall time approximates GPU work
+    if (!this.timer) gl.finish();
+
+    return { wallTime: performance.now() - startTime, gpuNanoseconds };
+  }
+
+  // Texture that a stage input reads from; stages may only read from earlier stages
+  private resolveSource(source: StageSource, stageIndex: number): WebGLTexture {
+    switch (source.type) {
+      case 'source':
+        return this.sourceTexture!;
+      case 'stage':
+        if (source.index < 0 || source.index >= stageIndex) {
+          throw new Error(`Stage ${stageIndex + 1} cannot read from stage ${source.index + 1}: inputs must come from earlier stages`);
+        }
+        return this.stageTargets[source.index].texture;
+      case 'auxiliary': {
+        const auxiliary = this.auxiliarySources.get(source.key);
+        if (!auxiliary) throw new Error(`Auxiliary image "${source.key}" has not been uploaded`);
+        return auxiliary.texture;
+      }
+    }
+  }
+
+  // Executes only the stages after the longest unchanged prefix, then presents `output` on the canvas
+  // (default: the last stage, or the source when there are none)
+  runPipeline(stages: RenderStage[], output?: StageSource, options: PresentOptions = {}): PipelineRunStats {
+    if (!this.sourceTexture) throw new Error('No source image uploaded');
+
+    const width = this.surface.width;
+    const height = this.surface.height;
+    this.ensureStageTargets(stages.length, width, height);
+
+    let firstDirty = 0;
+    while (
+      firstDirty < stages.length &&
+      firstDirty < this.stageKeys.length &&
+      stages[firstDirty].key === this.stageKeys[firstDirty]
+    ) {
+      firstDirty++;
+    }
+    this.stageKeys.length = firstDirty;
+
+    const stageTimings: (FilterTiming | null)[] = stages.map(() => null);
+
+    for (let i = firstDirty; i < stages.length; i++) {
+      const stage = stages[i];
+      const target = this.stageTargets[i];
+      try {
+        const inputs = stage.inputs.map(input => ({
+          uniform: input.uniform,
+          texture: this.resolveSource(input.source, i)
+        }));
+        stageTimings[i] = this.renderFilter(inputs, stage.fragmentShader, stage.uniforms, target.framebuffer, width, height);
+      } catch (error) {
+        if (error instanceof UniformBindingError) {
+          throw new UniformBindingError(`${stage.label}: uniform mismatch`, error.issues);
+        }
+        throw error;
+      }
+      this.stageKeys[i] = stage.key;
+    }
+
+    const presented = output ?? (stages.length > 0 ? { type: 'stage' as const, index: stages.length - 1 } : { type: 'source' as const });
+    this.clear();
+    const presentTiming = this.renderFilter(
+      [{ uniform: 'u_image', texture: this.resolveSource(presented, stages.length) }],
+      options.matte ? matteShader : passthroughShader,
+      options.matte ? { u_matte: options.matte } : {},
+      null,
+      width,
+      height
+    );
+
+    return {
+      stageTimings,
+      presentTiming,
+      executedStages: stages.length - firstDirty,
+      reusedStages: firstDirty
+    };
+  }
+
+  clear() {
+    const gl = this.gl;
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    // Transparent, so the canvas (and PNG exports) keep the image's alpha channel
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+  }
+
+  // Reads back the presented result, or the part of it covering `rect`, as top-down RGBA rows
+  readPixels(rect: TileRect = { x: 0, y: 0, width: this.surface.width, height: this.surface.height }): RawImage {
+    const gl = this.gl;
+    const data = new Uint8Array(rect.width * rect.height * 4);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.pixelStorei(gl.PACK_ALIGNMENT, 1);
+    gl.readPixels(rect.x, this.surface.height - rect.y - rect.height, rect.width, rect.height, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    return flipRows({ width: rect.width, height: rect.height, data });
+  }
+
+  getMemoryUsage(): number {
+    // 8-bit source and auxiliary textures (counted at canvas size, since they are sampled at that
+    // resolution) plus one target per cached stage at the intermediate format's size
+    const pixels = this.surface.width * this.surface.height;
+    const inputs = (this.sourceTexture ? 1 : 0) + this.auxiliarySources.size;
+    const targetBytes = this.stageTargets.reduce((sum, target) => sum + target.format.bytesPerPixel, 0);
+    return (pixels * (inputs * 4 + targetBytes)) / (1024 * 1024); // MB
+  }
+
+  destroy() {
+    const gl = this.gl;
+
+    this.timer?.destroy();
+    this.timer = null;
+
+    this.programs.forEach(program => gl.deleteProgram(program));
+    this.programs.clear();
+    this.programUniforms.clear();
+
+    this.stageTargets.forEach(target => this.deleteTarget(target));
+    this.stageTargets = [];
+    this.stageKeys = [];
+
+    if (this.sourceTexture) gl.deleteTexture(this.sourceTexture);
+    this.sourceTexture = null;
+    this.sourceKey = null;
+
+    this.auxiliarySources.forEach(auxiliary => gl.deleteTexture(auxiliary.texture));
+    this.auxiliarySources.clear();
+
+    if (this.positionBuffer) gl.deleteBuffer(this.positionBuffer);
+    if (this.indexBuffer) gl.deleteBuffer(this.indexBuffer);
+
+    this.surface.destroy?.();
+
+    console.log("✅ WebGL resources cleaned up");
+  }
+}
@@ -0,0 +1,78 @@
+import type { ImageLoader, SourceImage } from "./engine";
+import type { TileRect } from "./tiling";
+
+// Source images decoded by the browser, on the main thread and in the engine worker alike. The
+// JavaScript codecs are only for the headless backend: they ignore EXIF orientation and decode
+// synchronously, which blocks the page for seconds on large camera JPEGs.
+
+// ImageBitmaps are decoded bottom row first (imageOrientation "flipY"), the order textures use, because
+// WebGL ignores UNPACK_FLIP_Y_WEBGL for them
+export type DecodedImage = HTMLImageElement | ImageBitmap;
+
+type ScratchCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+// Workers have no document, only OffscreenCanvas
+function createScratchCanvas(): ScratchCanvas {
+  return typeof document !== "undefined" ? document.createElement("canvas") : new OffscreenCanvas(1, 1);
+}
+
+function imageSize(image: DecodedImage): { width: number; height: number } {
+  return "naturalWidth" in image
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+}
+
+// Draws the part of `image` that covers `rect` when the image is stretched over width x height, top
+// row first like every canvas
+function drawRegion(target: ScratchCanvas, image: DecodedImage, rect: TileRect, width: number, height: number): ScratchCanvas {
+  target.width = rect.width;
+  target.height = rect.height;
+  const size = imageSize(image);
+  const scaleX = size.width / width;
+  const scaleY = size.height / height;
+  const context = target.getContext("2d") as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+  const flipped = !("naturalWidth" in image);
+  // A flipped bitmap holds the rect mirrored vertically; drawing it upside down restores the orientation
+  const sourceY = flipped ? size.height - (rect.y + rect.height) * scaleY : rect.y * scaleY;
+  if (flipped) context.setTransform(1, 0, 0, -1, 0, rect.height);
+  context.drawImage(
+    image,
+    rect.x * scaleX, sourceY, rect.width * scaleX, rect.height * scaleY,
+    0, 0, rect.width, rect.height
+  );
+  return target;
+}
+
+export function canvasImageSource(image: DecodedImage): SourceImage {
+  // texImage2D copies synchronously, so one scratch canvas serves every crop
+  const scratch = createScratchCanvas();
+  const { width: imageWidth, height: imageHeight } = imageSize(image);
+  return {
+    width: imageWidth,
+    height: imageHeight,
+    // Images above MAX_TEXTURE_SIZE cannot be uploaded as-is; those are resampled to the output size
+    // first. Everything else is uploaded directly, so straight alpha survives without a 2D canvas.
+    texture(maxTextureSize, width, height) {
+      if (imageWidth > maxTextureSize || imageHeight > maxTextureSize) {
+        return drawRegion(createScratchCanvas(), image, { x: 0, y: 0, width, height }, width, height);
+      }
+      return image;
+    },
+    region(rect, width, height) {
+      return drawRegion(scratch, image, rect, width, height);
+    }
+  };
+}
+
+// Decodes off the main thread with the EXIF orientation applied, so the pixels match the upright size
+// an <img> reports, then flipped for upload. Values are kept as stored, without color conversion or
+// premultiplied alpha.
+export const loadBrowserImage: ImageLoader = async (src) => {
+  const blob = await (await fetch(src)).blob();
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: "flipY",
+    premultiplyAlpha: "none",
+    colorSpaceConversion: "none"
+  });
+  return canvasImageSource(bitmap);
+};
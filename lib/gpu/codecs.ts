@@ -0,0 +1,99 @@
+import { decode as decodePng, encode as encodePng, convertIndexedToRgb, hasPngSignature } from "fast-png";
+import { decode as decodeJpeg } from "jpeg-js";
+import type { RawImage } from "./image";
+
+// Pure JavaScript codecs. Every backend encodes through the same PNG encoder, which is what makes
+// browser and headless output byte-identical whenever the rendered pixels are. The decoders serve the
+// headless backend and the CLI; browsers decode sources themselves (see canvas-source.ts).
+
+export type ImageFormat = "png" | "jpeg";
+
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (hasPngSignature(bytes)) return "png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "jpeg";
+  return null;
+}
+
+// Any PNG (gray, palette, 1-16 bit, with or without alpha or tRNS) or baseline JPEG, as 8-bit RGBA
+export function decodeImage(bytes: Uint8Array): RawImage {
+  switch (detectImageFormat(bytes)) {
+    case "png":
+      return decodePngToRgba(bytes);
+    case "jpeg": {
+      const { width, height, data } = decodeJpeg(bytes, { useTArray: true, formatAsRGBA: true });
+      return { width, height, data };
+    }
+    default:
+      throw new Error("Unsupported image format: expected PNG or JPEG");
+  }
+}
+
+function decodePngToRgba(bytes: Uint8Array): RawImage {
+  const png = decodePng(bytes);
+  const { width, height } = png;
+  const image: RawImage = { width, height, data: new Uint8Array(width * height * 4) };
+
+  let samples = png.data;
+  let channels = png.channels;
+  let depth: number = png.depth;
+  if (png.palette) {
+    samples = convertIndexedToRgb(png);
+    channels = png.palette[0].length;
+    depth = 8;
+  } else if (depth < 8) {
+    samples = unpackGray(png.data, width, height, depth);
+  }
+
+  const max = 2 ** depth - 1;
+  const to8 = (value: number) => (depth === 8 ? value : Math.round((value * 255) / max));
+  // tRNS on gray or RGB images names a single fully transparent color
+  const key = !png.palette && png.transparency && (channels === 1 || channels === 3) ? png.transparency : null;
+
+  for (let i = 0; i < width * height; i++) {
+    const out = i * 4;
+    const at = i * channels;
+    let transparent = false;
+    if (channels <= 2) {
+      const gray = samples[at];
+      image.data[out] = image.data[out + 1] = image.data[out + 2] = to8(gray);
+      image.data[out + 3] = channels === 2 ? to8(samples[at + 1]) : 255;
+      transparent = key !== null && gray === key[0];
+    } else {
+      image.data[out] = to8(samples[at]);
+      image.data[out + 1] = to8(samples[at + 1]);
+      image.data[out + 2] = to8(samples[at + 2]);
+      image.data[out + 3] = channels === 4 ? to8(samples[at + 3]) : 255;
+      transparent = key !== null && samples[at] === key[0] && samples[at + 1] === key[1] && samples[at + 2] === key[2];
+    }
+    if (transparent) image.data[out + 3] = 0;
+  }
+  return image;
+}
+
+// 1, 2 and 4-bit grayscale rows are packed and padded to whole bytes
+function unpackGray(data: ArrayLike<number>, width: number, height: number, depth: number): Uint8Array {
+  const unpacked = new Uint8Array(width * height);
+  const rowBytes = Math.ceil((width * depth) / 8);
+  const mask = (1 << depth) - 1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const bit = x * depth;
+      const byte = data[y * rowBytes + (bit >> 3)];
+      unpacked[y * width + x] = (byte >> (8 - depth - (bit & 7))) & mask;
+    }
+  }
+  return unpacked;
+}
+
+export function encodeImagePng(image: RawImage): Uint8Array {
+  return encodePng({ width: image.width, height: image.height, data: image.data, channels: 4, depth: 8 });
+}
+
+export function toDataUrl(bytes: Uint8Array, mimeType: string): string {
+  let binary = "";
+  // Chunked so String.fromCharCode never receives more arguments than the engine allows
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
@@ -0,0 +1,106 @@
+// Color management. Source images arrive sRGB-encoded; filters either work on linear light in the
+// pipeline's working space or on sRGB-encoded ("perceptual") values, and the result is encoded to the
+// output space once at the end. "srgb" is the unmanaged working space: every filter sees the encoded
+// values, which is how pipelines rendered before color management existed.
+
+export type WorkingSpace = "srgb" | "srgb-linear" | "display-p3-linear" | "acescg";
+
+// Canvas color spaces the result can be encoded to
+export type OutputSpace = "srgb" | "display-p3";
+
+// What a filter expects its inputs to be, and what it writes
+export type FilterColorSpace = "linear" | "perceptual";
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+const IDENTITY: Matrix3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+// Linear sRGB to each working space's linear RGB (row-major). ACEScg includes the Bradford
+// adaptation from D65 to the ACES white point.
+const FROM_LINEAR_SRGB: { [space in WorkingSpace]: Matrix3 } = {
+  srgb: IDENTITY,
+  "srgb-linear": IDENTITY,
+  "display-p3-linear": [
+    0.8224621, 0.177538, 0.0,
+    0.0331941, 0.9668058, 0.0,
+    0.0170827, 0.0723974, 0.9105199,
+  ],
+  acescg: [
+    0.6130974, 0.3395231, 0.0473795,
+    0.0701937, 0.9163539, 0.0134524,
+    0.0206156, 0.1095698, 0.8698146,
+  ],
+};
+
+const OUTPUT_PRIMARIES: { [space in OutputSpace]: WorkingSpace } = {
+  srgb: "srgb-linear",
+  "display-p3": "display-p3-linear",
+};
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  const result = new Array(9).fill(0) as Matrix3;
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      for (let k = 0; k < 3; k++) result[row * 3 + col] += a[row * 3 + k] * b[k * 3 + col];
+    }
+  }
+  return result;
+}
+
+function invert(m: Matrix3): Matrix3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const det = a * (e * i - f * h) - b * (d * i - f * g) + c * (d * h - e * g);
+  return [
+    (e * i - f * h) / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    (f * g - d * i) / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    (d * h - e * g) / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+}
+
+// GLSL matrices are column-major
+function toColumnMajor(m: Matrix3): number[] {
+  return [m[0], m[3], m[6], m[1], m[4], m[7], m[2], m[5], m[8]];
+}
+
+export function isColorManaged(space: WorkingSpace): boolean {
+  return space !== "srgb";
+}
+
+// Unmanaged pipelines treat every filter as perceptual, so nothing is ever decoded
+export function resolveFilterColorSpace(declared: FilterColorSpace | undefined, workingSpace: WorkingSpace): FilterColorSpace {
+  return isColorManaged(workingSpace) ? declared ?? "perceptual" : "perceptual";
+}
+
+export interface ColorConversion {
+  from: FilterColorSpace;
+  to: FilterColorSpace | OutputSpace;
+}
+
+// Uniforms for colorConversionShader. Perceptual values are sRGB-encoded sRGB primaries; linear values
+// are linear light in the working space; an output space is that space's primaries, sRGB-encoded.
+export function getConversionUniforms(
+  { from, to }: ColorConversion,
+  workingSpace: WorkingSpace
+): { u_decode: boolean; u_encode: boolean; u_matrix: number[] } {
+  const toWorking = FROM_LINEAR_SRGB[workingSpace];
+  const fromPrimaries = from === "linear" ? toWorking : IDENTITY;
+  const toPrimaries =
+    to === "linear" ? toWorking : to === "perceptual" ? IDENTITY : FROM_LINEAR_SRGB[OUTPUT_PRIMARIES[to]];
+  return {
+    u_decode: from === "perceptual",
+    u_encode: to !== "linear",
+    u_matrix: toColumnMajor(multiply(toPrimaries, invert(fromPrimaries))),
+  };
+}
+
+export const WORKING_SPACE_OPTIONS: { value: WorkingSpace; label: string; description: string }[] = [
+  { value: "srgb-linear", label: "Linear sRGB", description: "Linear light with sRGB primaries" },
+  { value: "display-p3-linear", label: "Linear Display P3", description: "Linear light with Display P3 primaries" },
+  { value: "acescg", label: "ACEScg", description: "Linear light with ACES AP1 primaries" },
+  { value: "srgb", label: "sRGB (unmanaged)", description: "Filters see sRGB-encoded values, as before color management" },
+];
+
+export const OUTPUT_SPACE_OPTIONS: { value: OutputSpace; label: string }[] = [
+  { value: "srgb", label: "sRGB" },
+  { value: "display-p3", label: "Display P3" },
+];
@@ -0,0 +1,73 @@
+import { createRawImage, type RawImage } from "./image";
+
+// Difference between two renders of the same size, over all four channels in 0-255 units
+export interface ImageDifference {
+  maxError: number;
+  meanError: number;
+  // Peak signal-to-noise ratio in dB; Infinity for identical images
+  psnr: number;
+  // Pixels where any channel differs by more than the tolerance
+  differingPixels: number;
+}
+
+function checkSameSize(actual: RawImage, expected: RawImage) {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(
+      `Cannot compare a ${actual.width}x${actual.height} image with a ${expected.width}x${expected.height} one`
+    );
+  }
+}
+
+export function compareImages(actual: RawImage, expected: RawImage, tolerance: number = 0): ImageDifference {
+  checkSameSize(actual, expected);
+
+  let maxError = 0;
+  let totalError = 0;
+  let squaredError = 0;
+  let differingPixels = 0;
+  for (let i = 0; i < actual.data.length; i += 4) {
+    let differs = false;
+    for (let channel = 0; channel < 4; channel++) {
+      const error = Math.abs(actual.data[i + channel] - expected.data[i + channel]);
+      maxError = Math.max(maxError, error);
+      totalError += error;
+      squaredError += error * error;
+      differs = differs || error > tolerance;
+    }
+    if (differs) differingPixels++;
+  }
+
+  const samples = actual.data.length;
+  const mse = samples > 0 ? squaredError / samples : 0;
+  return {
+    maxError,
+    meanError: samples > 0 ? totalError / samples : 0,
+    psnr: mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse),
+    differingPixels,
+  };
+}
+
+// Opaque visualization of where two renders differ: each pixel's largest channel error on a
+// black-red-yellow-white ramp, scaled so the largest error in the image is white
+export function differenceHeatmap(actual: RawImage, expected: RawImage): RawImage {
+  checkSameSize(actual, expected);
+  const errors = new Float32Array(actual.width * actual.height);
+  let peak = 0;
+  for (let pixel = 0; pixel < errors.length; pixel++) {
+    for (let channel = 0; channel < 4; channel++) {
+      const at = pixel * 4 + channel;
+      errors[pixel] = Math.max(errors[pixel], Math.abs(actual.data[at] - expected.data[at]));
+    }
+    peak = Math.max(peak, errors[pixel]);
+  }
+
+  const heatmap = createRawImage(actual.width, actual.height);
+  errors.forEach((error, pixel) => {
+    const t = peak > 0 ? error / peak : 0;
+    heatmap.data[pixel * 4] = Math.round(Math.min(1, t * 3) * 255);
+    heatmap.data[pixel * 4 + 1] = Math.round(Math.min(1, Math.max(0, t * 3 - 1)) * 255);
+    heatmap.data[pixel * 4 + 2] = Math.round(Math.max(0, t * 3 - 2) * 255);
+    heatmap.data[pixel * 4 + 3] = 255;
+  });
+  return heatmap;
+}
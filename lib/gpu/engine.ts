@@ -0,0 +1,391 @@
+import { getTextureReadsPerPixel } from "./filters/registry";
+import type { FilterTiming, PipelineRunStats, PresentOptions, WebGLProcessor } from "./WebGLProcessor";
+import { getPipelineHalo, planPipeline, type ColorOptions, type PipelinePlan } from "./planner";
+import type { OutputSpace, WorkingSpace } from "./color";
+import type { RenderPrecision } from "./formats";
+import { blitRawImage, createRawImage, sampleRawImage, type RawImage, type TextureData } from "./image";
+import { planTiles, type TileRect } from "./tiling";
+import { UniformBindingError } from "./uniforms";
+import type { Filter, ProcessingResult, StageTiming } from "./ReglSurface";
+import { DEFAULT_PIPELINE_SETTINGS, parseHexColor } from "@/lib/pipeline/settings";
+
+// Environment-agnostic rendering core. Backends supply a processor and an image loader; the engine
+// plans, tiles, renders and reads the result back as raw pixels, which each backend encodes.
+
+// A decoded image, wrapped so the engine can upload it whole or crop it for tiles
+export interface SourceImage {
+  width: number;
+  height: number;
+  // The whole image for a width x height render, resampled first if it exceeds maxTextureSize
+  texture(maxTextureSize: number, width: number, height: number): TextureData;
+  // The part of the image covering `rect` when it is stretched over width x height
+  region(rect: TileRect, width: number, height: number): TextureData;
+}
+
+// Resolves an image reference (URL, data URL, file path...) to a decoded image
+export type ImageLoader = (src: string) => Promise<SourceImage>;
+
+export interface RenderOptions {
+  // Loaded images by name, for filter inputs wired to { type: "image" }
+  auxiliaryImages?: { [name: string]: string };
+  // Upper bound on the render target size; larger outputs are tiled
+  maxTileSize?: number;
+  // Requested intermediate precision; defaults to the pipeline settings default
+  precision?: RenderPrecision;
+  // "#rrggbb" background to flatten the result onto; by default the output keeps its alpha channel
+  matte?: string | null;
+  // Space linear filters work in, and the space the result is encoded to; default to the pipeline settings defaults
+  workingSpace?: WorkingSpace;
+  outputSpace?: OutputSpace;
+  // Called after each rendered tile; untiled outputs report a single tile
+  onProgress?: (completed: number, total: number) => void;
+  // Checked before rendering and between tiles; an aborted render throws the signal's reason
+  signal?: AbortSignal;
+}
+
+export interface RenderedImage {
+  // Everything except the encoded image, which is up to the backend
+  result: ProcessingResult;
+  pixels: RawImage;
+}
+
+// Render targets are also capped below the GL limits, so one stage of a huge image never needs more than 64 MB
+export const DEFAULT_MAX_TILE_SIZE = 4096;
+// Extra overlap so the CPU resampling of each tile's crop agrees across tile borders
+const RESAMPLE_MARGIN = 2;
+
+export function rawImageSource(image: RawImage): SourceImage {
+  return {
+    width: image.width,
+    height: image.height,
+    texture(maxTextureSize, width, height) {
+      if (fitsTexture(image, maxTextureSize)) return image;
+      return sampleRawImage(image, { x: 0, y: 0, width, height }, width, height);
+    },
+    region(rect, width, height) {
+      return sampleRawImage(image, rect, width, height);
+    }
+  };
+}
+
+function fitsTexture(image: { width: number; height: number }, maxTextureSize: number): boolean {
+  return image.width <= maxTextureSize && image.height <= maxTextureSize;
+}
+
+// Images above MAX_TEXTURE_SIZE are resampled to the output size when uploaded, so their textures are
+// cached per size; a proxy-sized texture must not serve a full-size render
+function resampledKey(src: string, width: number, height: number): string {
+  return `${src}@${width}x${height}`;
+}
+
+async function resolveTiming(timing: FilterTiming): Promise<{ nanoseconds: number; measured: boolean }> {
+  const measured = timing.gpuNanoseconds ? await timing.gpuNanoseconds : null;
+  return measured !== null
+    ? { nanoseconds: measured, measured: true }
+    : { nanoseconds: timing.wallTime * 1e6, measured: false };
+}
+
+interface FrameTimings {
+  stageTimings: StageTiming[];
+  gpuTimeNs: number;
+  measured: boolean;
+}
+
+async function collectTimings(plan: PipelinePlan, stats: PipelineRunStats): Promise<FrameTimings> {
+  const filterStages = new Set<number>();
+  const stageTimings: StageTiming[] = await Promise.all(
+    plan.filters.map(async ({ filter, definition, stages, firstStage }) => {
+      const passTimings = stats.stageTimings.slice(firstStage, firstStage + stages.length);
+      stages.forEach((_, pass) => filterStages.add(firstStage + pass));
+
+      const timing: StageTiming = {
+        filterId: filter.id,
+        shader: definition.id,
+        textureReadsPerPixel: getTextureReadsPerPixel(definition, filter.parameters),
+        passes: stages.length,
+        wallTime: 0,
+        gpuTimeNs: 0,
+        measured: true,
+        cached: passTimings.every(pass => pass === null)
+      };
+
+      for (const pass of passTimings) {
+        if (!pass) continue;
+        const { nanoseconds, measured } = await resolveTiming(pass);
+        timing.wallTime += pass.wallTime;
+        timing.gpuTimeNs += nanoseconds;
+        timing.measured = timing.measured && measured;
+      }
+      return timing;
+    })
+  );
+  // Color conversions belong to no filter; they count toward the frame like the present step
+  const overhead = await Promise.all(
+    stats.stageTimings
+      .filter((timing, index): timing is FilterTiming => timing !== null && !filterStages.has(index))
+      .concat(stats.presentTiming)
+      .map(resolveTiming)
+  );
+
+  return {
+    stageTimings,
+    gpuTimeNs: stageTimings.reduce((sum, stage) => sum + stage.gpuTimeNs, 0) +
+      overhead.reduce((sum, timing) => sum + timing.nanoseconds, 0),
+    measured: overhead.every(timing => timing.measured) && stageTimings.every(stage => stage.measured)
+  };
+}
+
+// Adds one tile's timings to the totals for the whole image; every tile runs the same stages
+function mergeTimings(total: FrameTimings | null, tile: FrameTimings): FrameTimings {
+  if (!total) return tile;
+  return {
+    stageTimings: total.stageTimings.map((stage, index) => ({
+      ...stage,
+      wallTime: stage.wallTime + tile.stageTimings[index].wallTime,
+      gpuTimeNs: stage.gpuTimeNs + tile.stageTimings[index].gpuTimeNs,
+      measured: stage.measured && tile.stageTimings[index].measured,
+      cached: stage.cached && tile.stageTimings[index].cached
+    })),
+    gpuTimeNs: total.gpuTimeNs + tile.gpuTimeNs,
+    measured: total.measured && tile.measured
+  };
+}
+
+function describeBackend(processor: WebGLProcessor): Pick<ProcessingResult, 'backend' | 'precision' | 'targetFormat'> {
+  return { backend: processor.backend, precision: processor.precision, targetFormat: processor.targetFormatLabel };
+}
+
+// GPU time and per-stage timings, which are only known once the timer queries have been read back
+export type FrameTimingResult = Pick<ProcessingResult, 'gpuTime' | 'gpuTimeMeasured' | 'stageTimings'>;
+
+function timingResult(timings: FrameTimings): FrameTimingResult {
+  return { gpuTime: timings.gpuTimeNs / 1e6, gpuTimeMeasured: timings.measured, stageTimings: timings.stageTimings };
+}
+
+// A single-tile render; without readback the result exists only on the processor's canvas
+interface RenderedFrame {
+  // Everything except the GPU timings, with gpuTime 0
+  result: ProcessingResult;
+  pixels: RawImage | null;
+  // Timer queries resolve a few frames after the draw, or after GpuTimer's timeout
+  timings: Promise<FrameTimingResult>;
+}
+
+async function renderFrame(
+  processor: WebGLProcessor,
+  loadImage: ImageLoader,
+  imageSrc: string,
+  pipeline: Filter[],
+  width: number,
+  height: number,
+  auxiliaryImages: { [name: string]: string },
+  color: ColorOptions,
+  present: PresentOptions,
+  readback: boolean,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<RenderedFrame> {
+  const plan = planPipeline(pipeline, width, height, color);
+  const maxTextureSize = processor.getMaxTextureSize();
+
+  const resampledSrc = resampledKey(imageSrc, width, height);
+  if (!processor.hasSource(imageSrc) && !processor.hasSource(resampledSrc)) {
+    const source = await loadImage(imageSrc);
+    const key = fitsTexture(source, maxTextureSize) ? imageSrc : resampledSrc;
+    processor.setSource(key, source.texture(maxTextureSize, width, height));
+  }
+  for (const name of plan.auxiliaryImages) {
+    const src = auxiliaryImages[name];
+    if (!src) throw new Error(`Input image "${name}" is not loaded`);
+    const resampled = resampledKey(src, width, height);
+    if (!processor.hasAuxiliarySource(name, src) && !processor.hasAuxiliarySource(name, resampled)) {
+      const image = await loadImage(src);
+      const version = fitsTexture(image, maxTextureSize) ? src : resampled;
+      processor.setAuxiliarySource(name, version, image.texture(maxTextureSize, width, height));
+    }
+  }
+  processor.retainAuxiliarySources(plan.auxiliaryImages);
+  processor.resize(width, height);
+  signal?.throwIfAborted();
+
+  const totalStartTime = performance.now();
+  const stats = processor.runPipeline(plan.stages, plan.output, present);
+  const pixels = readback ? processor.readPixels() : null;
+  const totalTime = performance.now() - totalStartTime;
+  onProgress?.(1, 1);
+
+  return {
+    result: {
+      success: true,
+      gpuTime: 0,
+      totalTime: totalTime,
+      memoryUsage: processor.getMemoryUsage(),
+      tiles: 1,
+      ...describeBackend(processor)
+    },
+    pixels,
+    timings: collectTimings(plan, stats).then(timingResult)
+  };
+}
+
+// Renders an output larger than one render target tile by tile. Each tile uploads only its own
+// (halo-padded) region of the source, so the source itself may exceed MAX_TEXTURE_SIZE too.
+async function renderTiled(
+  processor: WebGLProcessor,
+  loadImage: ImageLoader,
+  imageSrc: string,
+  pipeline: Filter[],
+  width: number,
+  height: number,
+  auxiliaryImages: { [name: string]: string },
+  color: ColorOptions,
+  present: PresentOptions,
+  maxTileSize: number,
+  onProgress?: (completed: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<RenderedImage> {
+  const tiles = planTiles(width, height, maxTileSize, getPipelineHalo(pipeline) + RESAMPLE_MARGIN);
+  const source = await loadImage(imageSrc);
+  const loadedAuxiliary = new Map<string, SourceImage>();
+  const output = createRawImage(width, height);
+
+  let timings: FrameTimings | null = null;
+  let totalTime = 0;
+  let memoryUsage = 0;
+
+  for (const [index, { rect, padded }] of tiles.entries()) {
+    signal?.throwIfAborted();
+    const plan = planPipeline(pipeline, padded.width, padded.height, color);
+    const region = `@${padded.x},${padded.y},${padded.width}x${padded.height}/${width}x${height}`;
+
+    processor.setSource(imageSrc + region, source.region(padded, width, height));
+    for (const name of plan.auxiliaryImages) {
+      const src = auxiliaryImages[name];
+      if (!src) throw new Error(`Input image "${name}" is not loaded`);
+      if (!loadedAuxiliary.has(name)) loadedAuxiliary.set(name, await loadImage(src));
+      processor.setAuxiliarySource(name, src + region, loadedAuxiliary.get(name)!.region(padded, width, height));
+    }
+    processor.retainAuxiliarySources(plan.auxiliaryImages);
+    processor.resize(padded.width, padded.height);
+
+    const tileStartTime = performance.now();
+    const stats = processor.runPipeline(plan.stages, plan.output, present);
+    // Keep only the interior; the halo was rendered just so neighborhood filters see real neighbors
+    const interior = processor.readPixels({
+      x: rect.x - padded.x,
+      y: rect.y - padded.y,
+      width: rect.width,
+      height: rect.height
+    });
+    blitRawImage(output, interior, rect.x, rect.y);
+    totalTime += performance.now() - tileStartTime;
+
+    timings = mergeTimings(timings, await collectTimings(plan, stats));
+    memoryUsage = Math.max(memoryUsage, processor.getMemoryUsage());
+    onProgress?.(index + 1, tiles.length);
+  }
+
+  return {
+    result: {
+      success: true,
+      gpuTime: timings!.gpuTimeNs / 1e6,
+      gpuTimeMeasured: timings!.measured,
+      totalTime,
+      memoryUsage,
+      stageTimings: timings!.stageTimings,
+      tiles: tiles.length,
+      ...describeBackend(processor)
+    },
+    pixels: output
+  };
+}
+
+interface RenderSetup {
+  color: ColorOptions;
+  present: PresentOptions;
+  maxTileSize: number;
+}
+
+// Applies the requested precision and output space to the processor
+function configureProcessor(processor: WebGLProcessor, options: RenderOptions): RenderSetup {
+  processor.setPrecision(options.precision ?? DEFAULT_PIPELINE_SETTINGS.precision);
+  return {
+    color: {
+      workingSpace: options.workingSpace ?? DEFAULT_PIPELINE_SETTINGS.workingSpace,
+      outputSpace: processor.setOutputSpace(options.outputSpace ?? DEFAULT_PIPELINE_SETTINGS.outputSpace)
+    },
+    present: { matte: options.matte ? parseHexColor(options.matte) : null },
+    maxTileSize: Math.min(processor.getMaxTileSize(), options.maxTileSize ?? DEFAULT_MAX_TILE_SIZE)
+  };
+}
+
+// Renders one image at width x height. Outputs larger than the processor's maximum tile size are
+// rendered in tiles and stitched. Throws on failure, and with the signal's reason when aborted; see
+// failedResult.
+export async function renderImage(
+  processor: WebGLProcessor,
+  loadImage: ImageLoader,
+  imageSrc: string,
+  pipeline: Filter[],
+  width: number,
+  height: number,
+  options: RenderOptions = {}
+): Promise<RenderedImage> {
+  const { auxiliaryImages = {}, onProgress, signal } = options;
+  signal?.throwIfAborted();
+  const { color, present, maxTileSize } = configureProcessor(processor, options);
+  if (width > maxTileSize || height > maxTileSize) {
+    return renderTiled(processor, loadImage, imageSrc, pipeline, width, height, auxiliaryImages, color, present, maxTileSize, onProgress, signal);
+  }
+  const { result, pixels, timings } = await renderFrame(
+    processor, loadImage, imageSrc, pipeline, width, height, auxiliaryImages, color, present, true, onProgress, signal
+  );
+  return { result: { ...result, ...(await timings) }, pixels: pixels! };
+}
+
+export interface PresentedImage {
+  // gpuTime is 0 and stageTimings are missing; they follow in `timings`
+  result: ProcessingResult;
+  timings: Promise<FrameTimingResult>;
+}
+
+// Renders one image straight onto the processor's canvas, for live previews: nothing is read back or
+// encoded, and it resolves as soon as the draw is submitted rather than waiting for the GPU timings.
+// The output has to fit a single tile, since tiles are only stitched on the CPU. Throws like
+// renderImage.
+export async function presentImage(
+  processor: WebGLProcessor,
+  loadImage: ImageLoader,
+  imageSrc: string,
+  pipeline: Filter[],
+  width: number,
+  height: number,
+  options: RenderOptions = {}
+): Promise<PresentedImage> {
+  const { auxiliaryImages = {}, onProgress, signal } = options;
+  signal?.throwIfAborted();
+  const { color, present, maxTileSize } = configureProcessor(processor, options);
+  if (width > maxTileSize || height > maxTileSize) {
+    throw new Error(`A ${width}x${height} preview does not fit the ${maxTileSize}px render target limit`);
+  }
+  const { result, timings } = await renderFrame(
+    processor, loadImage, imageSrc, pipeline, width, height, auxiliaryImages, color, present, false, onProgress, signal
+  );
+  return { result, timings };
+}
+
+// The default reason of an aborted signal
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+export function failedResult(error: unknown): ProcessingResult {
+  return {
+    success: false,
+    gpuTime: 0,
+    totalTime: 0,
+    memoryUsage: 0,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    errors: error instanceof UniformBindingError ? error.issues : undefined
+  };
+}
@@ -0,0 +1,492 @@
+import type { FilterDefinition } from "./registry";
+import { GAUSSIAN_WEIGHT_VECTORS, MAX_BLUR_RADIUS, gaussianKernel, packGaussianWeights } from "./kernels";
+import {
+  referenceBilateral,
+  referenceBlend,
+  referenceBlur,
+  referenceBrightness,
+  referenceContrast,
+  referenceDebug,
+  referenceDifferenceMatte,
+  referenceEdge,
+  referenceNoise,
+  referenceSaturation,
+  referenceSharpen,
+  referenceTint,
+  referenceUnsharpMask,
+} from "./reference";
+
+// Built-in filters, registered with the default registry in the order they appear in the Library tab.
+// Textures hold unpremultiplied color, so per-pixel filters adjust rgb and pass alpha through unchanged.
+// Neighborhood filters weight every sample by its alpha, so fully transparent pixels (whose rgb is
+// arbitrary) do not bleed into their neighbors.
+
+export const debugFilter: FilterDefinition = {
+  id: "debug",
+  name: "🔴 Debug Red Tint",
+  category: "debug",
+  colorSpace: "perceptual",
+  params: {},
+  textureReadsPerPixel: 1,
+  reference: referenceDebug,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 texel = texture2D(u_image, v_texCoord);
+      vec3 color = texel.rgb;
+      color.r = min(color.r + 0.5, 1.0);
+      gl_FragColor = vec4(color, texel.a);
+    }
+  `,
+};
+
+// Separable Gaussian: GLSL ES 1.0 needs constant loop bounds, so the loop runs to MAX_BLUR_RADIUS and breaks at u_taps
+const gaussianPassShader = `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform vec2 u_resolution;
+    uniform vec2 u_direction;
+    uniform int u_taps;
+    uniform vec4 u_weights[${GAUSSIAN_WEIGHT_VECTORS}];
+    varying vec2 v_texCoord;
+    void main() {
+      vec2 texelStep = u_direction / u_resolution;
+      // Accumulate premultiplied color so the result is weighted by alpha
+      vec4 center = texture2D(u_image, v_texCoord);
+      vec4 sum = vec4(center.rgb * center.a, center.a) * u_weights[0].x;
+      for (int i = 1; i <= ${MAX_BLUR_RADIUS}; i++) {
+        if (i > u_taps) break;
+        vec4 group = u_weights[i / 4];
+        int lane = i - (i / 4) * 4;
+        float weight = lane == 0 ? group.x : lane == 1 ? group.y : lane == 2 ? group.z : group.w;
+        vec2 offset = texelStep * float(i);
+        vec4 ahead = texture2D(u_image, v_texCoord + offset);
+        vec4 behind = texture2D(u_image, v_texCoord - offset);
+        sum += (vec4(ahead.rgb * ahead.a, ahead.a) + vec4(behind.rgb * behind.a, behind.a)) * weight;
+      }
+      gl_FragColor = sum.a > 0.0 ? vec4(sum.rgb / sum.a, sum.a) : vec4(0.0);
+    }
+  `;
+
+function gaussianPassUniforms(direction: [number, number]) {
+  return ({ radius }: { [key: string]: number }) => {
+    const kernel = gaussianKernel(radius);
+    return {
+      u_direction: direction,
+      u_taps: kernel.taps,
+      u_weights: packGaussianWeights(kernel),
+    };
+  };
+}
+
+export const blurFilter: FilterDefinition = {
+  id: "blur",
+  name: "Gaussian Blur",
+  category: "convolution",
+  colorSpace: "linear",
+  params: {
+    radius: { min: 0.5, max: MAX_BLUR_RADIUS, step: 0.5, default: 2.0 },
+  },
+  passes: [
+    { name: "horizontal", shader: gaussianPassShader, uniforms: gaussianPassUniforms([1, 0]) },
+    { name: "vertical", shader: gaussianPassShader, uniforms: gaussianPassUniforms([0, 1]) },
+  ],
+  // Two passes of (2 * taps + 1) samples each
+  textureReadsPerPixel: ({ radius }) => 2 * (2 * gaussianKernel(radius).taps + 1),
+  // Each pass reaches `taps` pixels along its own axis
+  halo: ({ radius }) => gaussianKernel(radius).taps,
+  reference: referenceBlur,
+};
+
+export const sharpenFilter: FilterDefinition = {
+  id: "sharpen",
+  name: "Sharpen",
+  category: "convolution",
+  colorSpace: "linear",
+  params: {
+    strength: { min: 0, max: 3, step: 0.1, default: 1.0 },
+  },
+  textureReadsPerPixel: 5,
+  reference: referenceSharpen,
+  halo: 1,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform float u_strength;
+    uniform vec2 u_resolution;
+    varying vec2 v_texCoord;
+    void main() {
+      vec2 texelSize = 1.0 / u_resolution;
+      vec4 center = texture2D(u_image, v_texCoord);
+      vec4 left = texture2D(u_image, v_texCoord + vec2(-texelSize.x, 0.0));
+      vec4 right = texture2D(u_image, v_texCoord + vec2(texelSize.x, 0.0));
+      vec4 down = texture2D(u_image, v_texCoord + vec2(0.0, -texelSize.y));
+      vec4 up = texture2D(u_image, v_texCoord + vec2(0.0, texelSize.y));
+      // Alpha-weighted mean of the neighbors; falls back to the center where they are all transparent
+      float coverage = left.a + right.a + down.a + up.a;
+      vec3 premultiplied = left.rgb * left.a + right.rgb * right.a + down.rgb * down.a + up.rgb * up.a;
+      vec3 blur = coverage > 0.0 ? premultiplied / coverage : center.rgb;
+      vec3 sharpened = center.rgb + (center.rgb - blur) * u_strength;
+      gl_FragColor = vec4(clamp(sharpened, 0.0, 1.0), center.a);
+    }
+  `,
+};
+
+export const edgeFilter: FilterDefinition = {
+  id: "edge",
+  name: "Edge Detection",
+  category: "convolution",
+  colorSpace: "perceptual",
+  params: {
+    threshold: { min: 0.1, max: 2, step: 0.1, default: 0.5 },
+  },
+  textureReadsPerPixel: 9,
+  reference: referenceEdge,
+  halo: 1,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform float u_threshold;
+    uniform vec2 u_resolution;
+    varying vec2 v_texCoord;
+    vec3 premultiplied(vec4 texel) {
+      return texel.rgb * texel.a;
+    }
+    void main() {
+      vec2 texelSize = 1.0 / u_resolution;
+      // Premultiplied samples, so the outline of a transparent region counts as an edge
+      vec3 tl = premultiplied(texture2D(u_image, v_texCoord + vec2(-texelSize.x, -texelSize.y)));
+      vec3 tm = premultiplied(texture2D(u_image, v_texCoord + vec2(0.0, -texelSize.y)));
+      vec3 tr = premultiplied(texture2D(u_image, v_texCoord + vec2(texelSize.x, -texelSize.y)));
+      vec3 ml = premultiplied(texture2D(u_image, v_texCoord + vec2(-texelSize.x, 0.0)));
+      vec3 mr = premultiplied(texture2D(u_image, v_texCoord + vec2(texelSize.x, 0.0)));
+      vec3 bl = premultiplied(texture2D(u_image, v_texCoord + vec2(-texelSize.x, texelSize.y)));
+      vec3 bm = premultiplied(texture2D(u_image, v_texCoord + vec2(0.0, texelSize.y)));
+      vec3 br = premultiplied(texture2D(u_image, v_texCoord + vec2(texelSize.x, texelSize.y)));
+      vec3 gx = -tl + tr - 2.0*ml + 2.0*mr - bl + br;
+      vec3 gy = -tl - 2.0*tm - tr + bl + 2.0*bm + br;
+      float magnitude = length(gx) + length(gy);
+      float edge = step(u_threshold, magnitude);
+      gl_FragColor = vec4(vec3(edge), texture2D(u_image, v_texCoord).a);
+    }
+  `,
+};
+
+export const brightnessFilter: FilterDefinition = {
+  id: "brightness",
+  name: "Brightness",
+  category: "color",
+  colorSpace: "linear",
+  params: {
+    value: { min: -50, max: 50, step: 1, default: 0.0 },
+  },
+  textureReadsPerPixel: 1,
+  reference: referenceBrightness,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform float u_value;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 texel = texture2D(u_image, v_texCoord);
+      vec3 color = texel.rgb + u_value * 0.01;
+      gl_FragColor = vec4(clamp(color, 0.0, 1.0), texel.a);
+    }
+  `,
+};
+
+export const contrastFilter: FilterDefinition = {
+  id: "contrast",
+  name: "Contrast",
+  category: "color",
+  colorSpace: "perceptual",
+  params: {
+    value: { min: 0.1, max: 3, step: 0.1, default: 1.0 },
+  },
+  textureReadsPerPixel: 1,
+  reference: referenceContrast,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform float u_value;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 texel = texture2D(u_image, v_texCoord);
+      vec3 color = (texel.rgb - 0.5) * u_value + 0.5;
+      gl_FragColor = vec4(clamp(color, 0.0, 1.0), texel.a);
+    }
+  `,
+};
+
+export const saturationFilter: FilterDefinition = {
+  id: "saturation",
+  name: "Saturation",
+  category: "color",
+  colorSpace: "perceptual",
+  params: {
+    value: { min: 0, max: 3, step: 0.1, default: 1.0 },
+  },
+  textureReadsPerPixel: 1,
+  reference: referenceSaturation,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform float u_value;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 texel = texture2D(u_image, v_texCoord);
+      float gray = dot(texel.rgb, vec3(0.299, 0.587, 0.114));
+      vec3 saturated = mix(vec3(gray), texel.rgb, u_value);
+      gl_FragColor = vec4(clamp(saturated, 0.0, 1.0), texel.a);
+    }
+  `,
+};
+
+export const tintFilter: FilterDefinition = {
+  id: "tint",
+  name: "Color Tint",
+  category: "color",
+  colorSpace: "perceptual",
+  params: {
+    red: { min: 0, max: 1, step: 0.01, default: 1.0 },
+    green: { min: 0, max: 1, step: 0.01, default: 0.8 },
+    blue: { min: 0, max: 1, step: 0.01, default: 0.6 },
+    amount: { min: 0, max: 1, step: 0.01, default: 0.5 },
+  },
+  uniforms: ({ red, green, blue, amount }) => ({
+    u_tint: [red, green, blue],
+    u_amount: amount,
+  }),
+  textureReadsPerPixel: 1,
+  reference: referenceTint,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform vec3 u_tint;
+    uniform float u_amount;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 texel = texture2D(u_image, v_texCoord);
+      float luma = dot(texel.rgb, vec3(0.299, 0.587, 0.114));
+      gl_FragColor = vec4(mix(texel.rgb, luma * u_tint, u_amount), texel.a);
+    }
+  `,
+};
+
+export const noiseFilter: FilterDefinition = {
+  id: "noise",
+  name: "Noise Reduction",
+  category: "advanced",
+  colorSpace: "linear",
+  params: {
+    strength: { min: 0, max: 1, step: 0.1, default: 0.5 },
+  },
+  textureReadsPerPixel: 10,
+  reference: referenceNoise,
+  halo: 1,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform float u_strength;
+    uniform vec2 u_resolution;
+    varying vec2 v_texCoord;
+    void main() {
+      vec2 texelSize = 1.0 / u_resolution;
+      vec4 center = texture2D(u_image, v_texCoord);
+      // Premultiplied 3x3 box sum
+      vec4 sum = vec4(0.0);
+      for (int x = -1; x <= 1; x++) {
+        for (int y = -1; y <= 1; y++) {
+          vec4 texel = texture2D(u_image, v_texCoord + vec2(float(x), float(y)) * texelSize);
+          sum += vec4(texel.rgb * texel.a, texel.a);
+        }
+      }
+      vec3 filtered = sum.a > 0.0 ? sum.rgb / sum.a : center.rgb;
+      vec3 result = mix(center.rgb, filtered, u_strength);
+      gl_FragColor = vec4(result, mix(center.a, sum.a / 9.0, u_strength));
+    }
+  `,
+};
+
+export const bilateralFilter: FilterDefinition = {
+  id: "bilateral",
+  name: "Bilateral Filter",
+  category: "advanced",
+  colorSpace: "linear",
+  params: {
+    spatial: { min: 0.5, max: 3, step: 0.1, default: 1.0 },
+    color: { min: 0.01, max: 1, step: 0.01, default: 0.1 },
+  },
+  textureReadsPerPixel: 26,
+  reference: referenceBilateral,
+  halo: 2,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform float u_spatial;
+    uniform float u_color;
+    uniform vec2 u_resolution;
+    varying vec2 v_texCoord;
+    void main() {
+      vec2 texelSize = 1.0 / u_resolution;
+      vec4 center = texture2D(u_image, v_texCoord);
+      vec3 centerColor = center.rgb;
+      vec3 sum = vec3(0.0);
+      float totalWeight = 0.0;
+      for (int x = -2; x <= 2; x++) {
+        for (int y = -2; y <= 2; y++) {
+          vec2 offset = vec2(float(x), float(y)) * texelSize;
+          vec4 texel = texture2D(u_image, v_texCoord + offset);
+          vec3 sampleColor = texel.rgb;
+          float spatialDist = length(vec2(float(x), float(y)));
+          float colorDist = length(sampleColor - centerColor);
+          float spatialWeight = exp(-spatialDist * spatialDist / (2.0 * u_spatial * u_spatial));
+          float colorWeight = exp(-colorDist * colorDist / (2.0 * u_color * u_color));
+          // Transparent samples carry no color information
+          float weight = spatialWeight * colorWeight * texel.a;
+          sum += sampleColor * weight;
+          totalWeight += weight;
+        }
+      }
+      if (totalWeight > 0.0) {
+        gl_FragColor = vec4(sum / totalWeight, center.a);
+      } else {
+        gl_FragColor = center;
+      }
+    }
+  `,
+};
+
+// Multi-input filters: the extra inputs default to the original image and can be rewired in the graph view
+
+export const blendFilter: FilterDefinition = {
+  id: "blend",
+  name: "Blend",
+  category: "composite",
+  colorSpace: "perceptual",
+  params: {
+    // 0 normal, 1 multiply, 2 screen, 3 overlay, 4 difference, 5 add
+    mode: { min: 0, max: 5, step: 1, default: 0 },
+    opacity: { min: 0, max: 1, step: 0.01, default: 0.5 },
+  },
+  inputs: [{ id: "layer", label: "Layer", uniform: "u_layer", default: "original" }],
+  textureReadsPerPixel: 2,
+  reference: referenceBlend,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform sampler2D u_layer;
+    uniform float u_mode;
+    uniform float u_opacity;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 backdrop = texture2D(u_image, v_texCoord);
+      vec4 source = texture2D(u_layer, v_texCoord);
+      vec3 base = backdrop.rgb;
+      vec3 layer = source.rgb;
+      vec3 blended;
+      if (u_mode < 0.5) {
+        blended = layer;
+      } else if (u_mode < 1.5) {
+        blended = base * layer;
+      } else if (u_mode < 2.5) {
+        blended = 1.0 - (1.0 - base) * (1.0 - layer);
+      } else if (u_mode < 3.5) {
+        blended = mix(2.0 * base * layer, 1.0 - 2.0 * (1.0 - base) * (1.0 - layer), step(0.5, base));
+      } else if (u_mode < 4.5) {
+        blended = abs(base - layer);
+      } else {
+        blended = min(base + layer, 1.0);
+      }
+      // Separable blend composited source-over (W3C compositing): the blend result only applies
+      // where both layers are present, and the output is unpremultiplied again
+      float sourceAlpha = source.a * u_opacity;
+      vec3 mixed = mix(layer, blended, backdrop.a);
+      float alpha = sourceAlpha + backdrop.a * (1.0 - sourceAlpha);
+      vec3 premultiplied = mixed * sourceAlpha + base * backdrop.a * (1.0 - sourceAlpha);
+      gl_FragColor = alpha > 0.0 ? vec4(premultiplied / alpha, alpha) : vec4(0.0);
+    }
+  `,
+};
+
+// Classic unsharp mask: add a Gaussian Blur, then this filter, which adds back the detail the blur removed
+export const unsharpMaskFilter: FilterDefinition = {
+  id: "unsharp",
+  name: "Unsharp Mask",
+  category: "composite",
+  colorSpace: "linear",
+  params: {
+    amount: { min: 0, max: 5, step: 0.1, default: 1.5 },
+    threshold: { min: 0, max: 0.5, step: 0.01, default: 0 },
+  },
+  inputs: [{ id: "base", label: "Sharp base", uniform: "u_base", default: "original" }],
+  textureReadsPerPixel: 2,
+  reference: referenceUnsharpMask,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform sampler2D u_base;
+    uniform float u_amount;
+    uniform float u_threshold;
+    varying vec2 v_texCoord;
+    void main() {
+      vec3 blurred = texture2D(u_image, v_texCoord).rgb;
+      vec4 base = texture2D(u_base, v_texCoord);
+      vec3 detail = base.rgb - blurred;
+      // Ignore low-contrast detail so flat areas and noise are not amplified
+      vec3 mask = step(u_threshold, abs(detail));
+      gl_FragColor = vec4(clamp(base.rgb + detail * mask * u_amount, 0.0, 1.0), base.a);
+    }
+  `,
+};
+
+export const differenceMatteFilter: FilterDefinition = {
+  id: "difference",
+  name: "Difference Matte",
+  category: "composite",
+  colorSpace: "perceptual",
+  params: {
+    threshold: { min: 0, max: 1, step: 0.01, default: 0.1 },
+    softness: { min: 0, max: 0.5, step: 0.01, default: 0.05 },
+  },
+  inputs: [{ id: "reference", label: "Reference", uniform: "u_reference", default: "original" }],
+  textureReadsPerPixel: 2,
+  reference: referenceDifferenceMatte,
+  shader: `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform sampler2D u_reference;
+    uniform float u_threshold;
+    uniform float u_softness;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 color = texture2D(u_image, v_texCoord);
+      vec4 reference = texture2D(u_reference, v_texCoord);
+      // Distance between premultiplied colors and alphas, so appearing or vanishing pixels count too;
+      // scaled so opaque black vs opaque white is 1.0
+      vec4 a = vec4(color.rgb * color.a, color.a);
+      vec4 b = vec4(reference.rgb * reference.a, reference.a);
+      float delta = min(length(a - b) / sqrt(3.0), 1.0);
+      float matte = smoothstep(u_threshold, u_threshold + u_softness + 0.0001, delta);
+      gl_FragColor = vec4(vec3(matte), 1.0);
+    }
+  `,
+};
+
+export const builtinFilters: FilterDefinition[] = [
+  debugFilter,
+  blurFilter,
+  sharpenFilter,
+  edgeFilter,
+  brightnessFilter,
+  contrastFilter,
+  saturationFilter,
+  tintFilter,
+  noiseFilter,
+  bilateralFilter,
+  blendFilter,
+  unsharpMaskFilter,
+  differenceMatteFilter,
+];
@@ -0,0 +1,38 @@
+// CPU-side kernel construction for convolution filters
+
+export const MAX_BLUR_RADIUS = 64;
+// Weights are uploaded as a vec4 array: ceil((MAX_BLUR_RADIUS + 1) / 4) vectors
+export const GAUSSIAN_WEIGHT_VECTORS = Math.ceil((MAX_BLUR_RADIUS + 1) / 4);
+
+export interface GaussianKernel {
+  // Samples taken on each side of the center
+  taps: number;
+  // weights[0] is the center, weights[i] applies to the samples at +i and -i; normalized to sum to 1
+  weights: Float32Array;
+}
+
+// One-dimensional Gaussian whose support covers `radius` pixels (radius ≈ 3σ)
+export function gaussianKernel(radius: number): GaussianKernel {
+  const clamped = Math.min(Math.max(radius, 0), MAX_BLUR_RADIUS);
+  const taps = Math.ceil(clamped);
+  const sigma = Math.max(clamped / 3, 1e-3);
+
+  const weights = new Float32Array(taps + 1);
+  let total = 0;
+  for (let i = 0; i <= taps; i++) {
+    weights[i] = Math.exp(-(i * i) / (2 * sigma * sigma));
+    total += i === 0 ? weights[i] : 2 * weights[i];
+  }
+  for (let i = 0; i <= taps; i++) {
+    weights[i] /= total;
+  }
+
+  return { taps, weights };
+}
+
+// Pads the kernel weights into the fixed-size vec4 array the blur shader declares
+export function packGaussianWeights(kernel: GaussianKernel): Float32Array {
+  const packed = new Float32Array(GAUSSIAN_WEIGHT_VECTORS * 4);
+  packed.set(kernel.weights);
+  return packed;
+}
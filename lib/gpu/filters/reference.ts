@@ -0,0 +1,235 @@
+import { gaussianKernel } from "./kernels";
+
+// CPU reference implementations of the built-in shaders, on Float32 RGBA buffers. They follow each
+// shader line by line (texel-center sampling with edge clamping, the same alpha weighting) and favor
+// obviously-correct code over speed; the comparison harness renders both and reports the difference.
+
+// Unpremultiplied RGBA in 0-1, top row first
+export interface FloatImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+// Receives each input by the sampler uniform the shader declares: u_image, plus e.g. u_layer for blend
+export type ReferenceFilter = (
+  inputs: { [uniform: string]: FloatImage },
+  params: { [key: string]: number }
+) => FloatImage;
+
+type Texel = [number, number, number, number];
+
+export function createFloatImage(width: number, height: number): FloatImage {
+  return { width, height, data: new Float32Array(width * height * 4) };
+}
+
+// texture2D() at a texel center with CLAMP_TO_EDGE
+function fetch(image: FloatImage, x: number, y: number): Texel {
+  const cx = Math.min(image.width - 1, Math.max(0, x));
+  const cy = Math.min(image.height - 1, Math.max(0, y));
+  const at = (cy * image.width + cx) * 4;
+  const d = image.data;
+  return [d[at], d[at + 1], d[at + 2], d[at + 3]];
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function mix(a: number, b: number, t: number): number {
+  return a * (1 - t) + b * t;
+}
+
+function luma(r: number, g: number, b: number): number {
+  return r * 0.299 + g * 0.587 + b * 0.114;
+}
+
+// Runs `shade` for every output pixel, like a fragment shader over a full-screen quad
+function render(input: FloatImage, shade: (x: number, y: number) => Texel): FloatImage {
+  const output = createFloatImage(input.width, input.height);
+  for (let y = 0; y < input.height; y++) {
+    for (let x = 0; x < input.width; x++) {
+      output.data.set(shade(x, y), (y * input.width + x) * 4);
+    }
+  }
+  return output;
+}
+
+// Per-pixel filters that adjust rgb and pass alpha through
+function perPixel(transform: (r: number, g: number, b: number, params: { [key: string]: number }) => [number, number, number]): ReferenceFilter {
+  return ({ u_image }, params) =>
+    render(u_image, (x, y) => {
+      const [r, g, b, a] = fetch(u_image, x, y);
+      return [...transform(r, g, b, params), a];
+    });
+}
+
+export const referenceDebug = perPixel((r, g, b) => [Math.min(r + 0.5, 1), g, b]);
+
+function gaussianPass(image: FloatImage, dx: number, dy: number, radius: number): FloatImage {
+  const { taps, weights } = gaussianKernel(radius);
+  return render(image, (x, y) => {
+    const sum = [0, 0, 0, 0];
+    for (let i = -taps; i <= taps; i++) {
+      const [r, g, b, a] = fetch(image, x + dx * i, y + dy * i);
+      const weight = weights[Math.abs(i)];
+      sum[0] += r * a * weight;
+      sum[1] += g * a * weight;
+      sum[2] += b * a * weight;
+      sum[3] += a * weight;
+    }
+    return sum[3] > 0 ? [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3], sum[3]] : [0, 0, 0, 0];
+  });
+}
+
+export const referenceBlur: ReferenceFilter = ({ u_image }, { radius }) =>
+  gaussianPass(gaussianPass(u_image, 1, 0, radius), 0, 1, radius);
+
+export const referenceSharpen: ReferenceFilter = ({ u_image }, { strength }) =>
+  render(u_image, (x, y) => {
+    const center = fetch(u_image, x, y);
+    const neighbors = [fetch(u_image, x - 1, y), fetch(u_image, x + 1, y), fetch(u_image, x, y - 1), fetch(u_image, x, y + 1)];
+    const coverage = neighbors.reduce((sum, texel) => sum + texel[3], 0);
+    const sharpened = [0, 1, 2].map((channel) => {
+      const premultiplied = neighbors.reduce((sum, texel) => sum + texel[channel] * texel[3], 0);
+      const blur = coverage > 0 ? premultiplied / coverage : center[channel];
+      return clamp01(center[channel] + (center[channel] - blur) * strength);
+    });
+    return [sharpened[0], sharpened[1], sharpened[2], center[3]];
+  });
+
+export const referenceEdge: ReferenceFilter = ({ u_image }, { threshold }) =>
+  render(u_image, (x, y) => {
+    const at = (dx: number, dy: number) => {
+      const [r, g, b, a] = fetch(u_image, x + dx, y + dy);
+      return [r * a, g * a, b * a];
+    };
+    const [tl, tm, tr, ml, mr, bl, bm, br] = [
+      at(-1, -1), at(0, -1), at(1, -1), at(-1, 0), at(1, 0), at(-1, 1), at(0, 1), at(1, 1),
+    ];
+    let gx = 0;
+    let gy = 0;
+    for (let c = 0; c < 3; c++) {
+      const x = -tl[c] + tr[c] - 2 * ml[c] + 2 * mr[c] - bl[c] + br[c];
+      const y = -tl[c] - 2 * tm[c] - tr[c] + bl[c] + 2 * bm[c] + br[c];
+      gx += x * x;
+      gy += y * y;
+    }
+    const edge = Math.sqrt(gx) + Math.sqrt(gy) < threshold ? 0 : 1;
+    return [edge, edge, edge, fetch(u_image, x, y)[3]];
+  });
+
+export const referenceBrightness = perPixel((r, g, b, { value }) => [
+  clamp01(r + value * 0.01),
+  clamp01(g + value * 0.01),
+  clamp01(b + value * 0.01),
+]);
+
+export const referenceContrast = perPixel((r, g, b, { value }) => [
+  clamp01((r - 0.5) * value + 0.5),
+  clamp01((g - 0.5) * value + 0.5),
+  clamp01((b - 0.5) * value + 0.5),
+]);
+
+export const referenceSaturation = perPixel((r, g, b, { value }) => {
+  const gray = luma(r, g, b);
+  return [clamp01(mix(gray, r, value)), clamp01(mix(gray, g, value)), clamp01(mix(gray, b, value))];
+});
+
+export const referenceTint = perPixel((r, g, b, { red, green, blue, amount }) => {
+  const gray = luma(r, g, b);
+  return [mix(r, gray * red, amount), mix(g, gray * green, amount), mix(b, gray * blue, amount)];
+});
+
+export const referenceNoise: ReferenceFilter = ({ u_image }, { strength }) =>
+  render(u_image, (x, y) => {
+    const center = fetch(u_image, x, y);
+    const sum = [0, 0, 0, 0];
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const [r, g, b, a] = fetch(u_image, x + dx, y + dy);
+        sum[0] += r * a;
+        sum[1] += g * a;
+        sum[2] += b * a;
+        sum[3] += a;
+      }
+    }
+    const filtered = (channel: number) => (sum[3] > 0 ? sum[channel] / sum[3] : center[channel]);
+    return [
+      mix(center[0], filtered(0), strength),
+      mix(center[1], filtered(1), strength),
+      mix(center[2], filtered(2), strength),
+      mix(center[3], sum[3] / 9, strength),
+    ];
+  });
+
+export const referenceBilateral: ReferenceFilter = ({ u_image }, { spatial, color }) =>
+  render(u_image, (x, y) => {
+    const center = fetch(u_image, x, y);
+    const sum = [0, 0, 0];
+    let totalWeight = 0;
+    for (let dx = -2; dx <= 2; dx++) {
+      for (let dy = -2; dy <= 2; dy++) {
+        const texel = fetch(u_image, x + dx, y + dy);
+        const spatialDistSq = dx * dx + dy * dy;
+        const colorDistSq = (texel[0] - center[0]) ** 2 + (texel[1] - center[1]) ** 2 + (texel[2] - center[2]) ** 2;
+        const weight =
+          Math.exp(-spatialDistSq / (2 * spatial * spatial)) * Math.exp(-colorDistSq / (2 * color * color)) * texel[3];
+        sum[0] += texel[0] * weight;
+        sum[1] += texel[1] * weight;
+        sum[2] += texel[2] * weight;
+        totalWeight += weight;
+      }
+    }
+    return totalWeight > 0 ? [sum[0] / totalWeight, sum[1] / totalWeight, sum[2] / totalWeight, center[3]] : center;
+  });
+
+const BLEND_MODES: ((base: number, layer: number) => number)[] = [
+  (_, layer) => layer,
+  (base, layer) => base * layer,
+  (base, layer) => 1 - (1 - base) * (1 - layer),
+  (base, layer) => (base < 0.5 ? 2 * base * layer : 1 - 2 * (1 - base) * (1 - layer)),
+  (base, layer) => Math.abs(base - layer),
+  (base, layer) => Math.min(base + layer, 1),
+];
+
+export const referenceBlend: ReferenceFilter = ({ u_image, u_layer }, { mode, opacity }) =>
+  render(u_image, (x, y) => {
+    const backdrop = fetch(u_image, x, y);
+    const source = fetch(u_layer, x, y);
+    // The shader's if-chain compares against the midpoints between modes
+    const blend = BLEND_MODES[Math.min(BLEND_MODES.length - 1, Math.max(0, Math.round(mode)))];
+    const sourceAlpha = source[3] * opacity;
+    const alpha = sourceAlpha + backdrop[3] * (1 - sourceAlpha);
+    if (alpha <= 0) return [0, 0, 0, 0];
+    const channel = (c: number) => {
+      const mixed = mix(source[c], blend(backdrop[c], source[c]), backdrop[3]);
+      return (mixed * sourceAlpha + backdrop[c] * backdrop[3] * (1 - sourceAlpha)) / alpha;
+    };
+    return [channel(0), channel(1), channel(2), alpha];
+  });
+
+export const referenceUnsharpMask: ReferenceFilter = ({ u_image, u_base }, { amount, threshold }) =>
+  render(u_image, (x, y) => {
+    const blurred = fetch(u_image, x, y);
+    const base = fetch(u_base, x, y);
+    const channel = (c: number) => {
+      const detail = base[c] - blurred[c];
+      const mask = Math.abs(detail) < threshold ? 0 : 1;
+      return clamp01(base[c] + detail * mask * amount);
+    };
+    return [channel(0), channel(1), channel(2), base[3]];
+  });
+
+export const referenceDifferenceMatte: ReferenceFilter = ({ u_image, u_reference }, { threshold, softness }) =>
+  render(u_image, (x, y) => {
+    const color = fetch(u_image, x, y);
+    const reference = fetch(u_reference, x, y);
+    let distanceSq = (color[3] - reference[3]) ** 2;
+    for (let c = 0; c < 3; c++) distanceSq += (color[c] * color[3] - reference[c] * reference[3]) ** 2;
+    const delta = Math.min(Math.sqrt(distanceSq) / Math.sqrt(3), 1);
+    // smoothstep(threshold, threshold + softness + 0.0001, delta)
+    const t = clamp01((delta - threshold) / (softness + 0.0001));
+    const matte = t * t * (3 - 2 * t);
+    return [matte, matte, matte, 1];
+  });
@@ -0,0 +1,194 @@
+import type { FilterTemplate } from "../ReglSurface";
+import { builtinFilters } from "./builtin";
+import type { UniformValue } from "../uniforms";
+import type { FilterColorSpace } from "../color";
+import type { ReferenceFilter } from "./reference";
+
+export interface ParamDefinition {
+  min: number;
+  max: number;
+  step: number;
+  default: number;
+}
+
+export interface UniformContext {
+  width: number;
+  height: number;
+}
+
+type UniformMapping = (params: { [key: string]: number }, context: UniformContext) => { [key: string]: UniformValue };
+
+export interface FilterPass {
+  name: string;
+  shader: string;
+  uniforms?: UniformMapping;
+}
+
+// A secondary sampler input, e.g. the layer of a blend. The primary input is always `u_image`.
+export interface FilterInputDefinition {
+  id: string;
+  label: string;
+  // sampler2D uniform the input is bound to
+  uniform: string;
+  // Source used until the input is rewired: the previous stage's output or the original image
+  default: "previous" | "original";
+}
+
+export interface FilterDefinition {
+  id: string;
+  name: string;
+  // Library grouping, e.g. "color", "convolution", "advanced"
+  category: string;
+  params: { [key: string]: ParamDefinition };
+  // Single-pass filters: GLSL fragment shader receiving u_image, u_resolution and one uniform per parameter
+  shader?: string;
+  // Maps parameter values to uniforms, bound by their declared GLSL type (vecN, ivecN, bvecN, matN, arrays).
+  // Defaults to a float `u_<param>` for every parameter.
+  uniforms?: UniformMapping;
+  // Multi-pass filters: each pass renders into its own target and feeds the next one
+  passes?: FilterPass[];
+  // Extra inputs bound to every pass, in addition to u_image
+  inputs?: FilterInputDefinition[];
+  // Source of u_image until rewired; defaults to the previous stage
+  primaryInput?: "previous" | "original";
+  textureReadsPerPixel: number | ((params: { [key: string]: number }) => number);
+  // Farthest neighbor, in pixels, any output pixel reads (summed over passes). Tiles overlap by the
+  // pipeline total so they stitch seamlessly. Defaults to 0 for per-pixel filters.
+  halo?: number | ((params: { [key: string]: number }) => number);
+  // Whether the shader expects linear light in the working space or sRGB-encoded values. The engine
+  // converts every input accordingly. Defaults to "perceptual", which is what shaders written
+  // without color management assume.
+  colorSpace?: FilterColorSpace;
+  // CPU implementation of the whole filter (all passes) on float buffers, for checking the shaders
+  // against and for rendering without a GPU. Filters without one cannot be verified or CPU-rendered.
+  reference?: ReferenceFilter;
+}
+
+type Listener = () => void;
+
+export class FilterRegistry {
+  private definitions: Map<string, FilterDefinition> = new Map();
+  private listeners: Set<Listener> = new Set();
+  private snapshot: FilterDefinition[] = [];
+
+  register(definition: FilterDefinition) {
+    if (!/^[A-Za-z0-9_]+$/.test(definition.id)) {
+      // Instance ids are `${definitionId}-...`, so the definition id itself cannot contain "-"
+      throw new Error(`Invalid filter id "${definition.id}": use letters, digits and underscores only`);
+    }
+    if (this.definitions.has(definition.id)) {
+      throw new Error(`Filter "${definition.id}" is already registered`);
+    }
+    if (!definition.shader === !definition.passes || definition.passes?.length === 0) {
+      throw new Error(`Filter "${definition.id}" must declare either a shader or a non-empty list of passes`);
+    }
+    const inputIds = new Set<string>();
+    definition.inputs?.forEach(input => {
+      if (input.id === "image" || input.uniform === "u_image" || inputIds.has(input.id)) {
+        throw new Error(`Filter "${definition.id}": input "${input.id}" clashes with the primary input or another input`);
+      }
+      inputIds.add(input.id);
+    });
+    Object.entries(definition.params).forEach(([param, config]) => {
+      if (config.min > config.max || config.default < config.min || config.default > config.max) {
+        throw new Error(`Filter "${definition.id}": default for "${param}" is outside ${config.min}..${config.max}`);
+      }
+    });
+
+    this.definitions.set(definition.id, definition);
+    this.emit();
+  }
+
+  unregister(id: string) {
+    if (this.definitions.delete(id)) this.emit();
+  }
+
+  has(id: string): boolean {
+    return this.definitions.has(id);
+  }
+
+  get(id: string): FilterDefinition | undefined {
+    return this.definitions.get(id);
+  }
+
+  // Resolves a pipeline filter instance id such as "blur-1718..." to its definition
+  resolve(filterId: string): FilterDefinition {
+    const definitionId = filterId.split("-")[0];
+    const definition = this.definitions.get(definitionId);
+    if (!definition) throw new Error(`Unknown filter "${definitionId}"`);
+    return definition;
+  }
+
+  // Stable array reference between changes, suitable for useSyncExternalStore
+  list(): FilterDefinition[] {
+    return this.snapshot;
+  }
+
+  templates(): FilterTemplate[] {
+    return this.snapshot.map(toFilterTemplate);
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit() {
+    this.snapshot = Array.from(this.definitions.values());
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export function toFilterTemplate(definition: FilterDefinition): FilterTemplate {
+  const defaultParams: FilterTemplate["defaultParams"] = {};
+  const paramConfig: FilterTemplate["paramConfig"] = {};
+  Object.entries(definition.params).forEach(([param, { min, max, step, default: value }]) => {
+    defaultParams[param] = value;
+    paramConfig[param] = { min, max, step };
+  });
+
+  return {
+    id: definition.id,
+    name: definition.name,
+    type: definition.category,
+    defaultParams,
+    paramConfig,
+    inputs: definition.inputs?.map(({ id, label }) => ({ id, label })),
+  };
+}
+
+// Single-pass definitions are treated as one pass named after the filter
+export function getFilterPasses(definition: FilterDefinition): FilterPass[] {
+  if (definition.passes) return definition.passes;
+  return [{ name: definition.name, shader: definition.shader!, uniforms: definition.uniforms }];
+}
+
+export function getTextureReadsPerPixel(definition: FilterDefinition, params: { [key: string]: number }): number {
+  const reads = definition.textureReadsPerPixel;
+  return typeof reads === "function" ? reads(params) : reads;
+}
+
+export function getFilterHalo(definition: FilterDefinition, params: { [key: string]: number }): number {
+  const halo = definition.halo ?? 0;
+  return typeof halo === "function" ? halo(params) : halo;
+}
+
+export function getPassUniforms(
+  pass: FilterPass,
+  params: { [key: string]: number },
+  context: UniformContext
+): { [key: string]: UniformValue } {
+  if (pass.uniforms) return pass.uniforms(params, context);
+
+  const uniforms: { [key: string]: UniformValue } = {};
+  Object.entries(params).forEach(([key, value]) => {
+    uniforms[`u_${key}`] = value;
+  });
+  return uniforms;
+}
+
+// Default registry shared by the engine and the UI; plugins call filterRegistry.register(...)
+export const filterRegistry = new FilterRegistry();
+builtinFilters.forEach(definition => filterRegistry.register(definition));
@@ -0,0 +1,104 @@
+// Render target formats for intermediate stages. Sources and the final canvas stay 8-bit, so with
+// half or float targets the pipeline quantizes only once, when the result is presented for readback.
+
+export type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+export type RenderPrecision = "unorm8" | "half" | "float";
+
+export interface TargetFormat {
+  precision: RenderPrecision;
+  // Sized internal format on WebGL2 (e.g. RGBA16F); plain RGBA on WebGL1
+  internalFormat: number;
+  format: number;
+  type: number;
+  // LINEAR when the format is filterable, NEAREST otherwise
+  filter: number;
+  bytesPerPixel: number;
+  label: string;
+}
+
+// Best first; an unsupported request falls back along this order
+const PRECISION_FALLBACK: RenderPrecision[] = ["float", "half", "unorm8"];
+
+export function isWebGL2(gl: GL): gl is WebGL2RenderingContext {
+  return typeof WebGL2RenderingContext !== "undefined" && gl instanceof WebGL2RenderingContext;
+}
+
+function candidateFormats(gl: GL): TargetFormat[] {
+  const unorm8: TargetFormat = {
+    precision: "unorm8",
+    internalFormat: isWebGL2(gl) ? gl.RGBA8 : gl.RGBA,
+    format: gl.RGBA,
+    type: gl.UNSIGNED_BYTE,
+    filter: gl.LINEAR,
+    bytesPerPixel: 4,
+    label: "RGBA8",
+  };
+
+  if (isWebGL2(gl)) {
+    // EXT_color_buffer_float makes both RGBA16F and RGBA32F renderable; the half-float extension only RGBA16F
+    const colorBufferFloat = !!gl.getExtension("EXT_color_buffer_float");
+    const colorBufferHalf = colorBufferFloat || !!gl.getExtension("EXT_color_buffer_half_float");
+    const floatLinear = !!gl.getExtension("OES_texture_float_linear");
+    return [
+      unorm8,
+      ...(colorBufferHalf
+        ? [{ precision: "half" as const, internalFormat: gl.RGBA16F, format: gl.RGBA, type: gl.HALF_FLOAT, filter: gl.LINEAR, bytesPerPixel: 8, label: "RGBA16F" }]
+        : []),
+      ...(colorBufferFloat
+        ? [{ precision: "float" as const, internalFormat: gl.RGBA32F, format: gl.RGBA, type: gl.FLOAT, filter: floatLinear ? gl.LINEAR : gl.NEAREST, bytesPerPixel: 16, label: "RGBA32F" }]
+        : []),
+    ];
+  }
+
+  const formats = [unorm8];
+  const half = gl.getExtension("OES_texture_half_float");
+  if (half) {
+    gl.getExtension("EXT_color_buffer_half_float");
+    const linear = !!gl.getExtension("OES_texture_half_float_linear");
+    formats.push({ precision: "half", internalFormat: gl.RGBA, format: gl.RGBA, type: half.HALF_FLOAT_OES, filter: linear ? gl.LINEAR : gl.NEAREST, bytesPerPixel: 8, label: "RGBA16F" });
+  }
+  if (gl.getExtension("OES_texture_float")) {
+    gl.getExtension("WEBGL_color_buffer_float");
+    const linear = !!gl.getExtension("OES_texture_float_linear");
+    formats.push({ precision: "float", internalFormat: gl.RGBA, format: gl.RGBA, type: gl.FLOAT, filter: linear ? gl.LINEAR : gl.NEAREST, bytesPerPixel: 16, label: "RGBA32F" });
+  }
+  return formats;
+}
+
+// Extensions only promise texture support; WebGL1 drivers in particular may still refuse to render
+// into float textures, so every candidate is confirmed with a 1x1 framebuffer
+function isRenderable(gl: GL, format: TargetFormat): boolean {
+  const texture = gl.createTexture();
+  const framebuffer = gl.createFramebuffer();
+  try {
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, format.internalFormat, 1, 1, 0, format.format, format.type, null);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    return gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+  } finally {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    gl.bindTexture(gl.TEXTURE_2D, null);
+    gl.deleteFramebuffer(framebuffer);
+    gl.deleteTexture(texture);
+  }
+}
+
+export function detectTargetFormats(gl: GL): Map<RenderPrecision, TargetFormat> {
+  const formats = new Map<RenderPrecision, TargetFormat>();
+  candidateFormats(gl).forEach((format) => {
+    if (format.precision === "unorm8" || isRenderable(gl, format)) formats.set(format.precision, format);
+  });
+  return formats;
+}
+
+// The requested precision when supported, otherwise the best supported one below it
+export function resolvePrecision(requested: RenderPrecision, supported: Map<RenderPrecision, TargetFormat>): TargetFormat {
+  const start = PRECISION_FALLBACK.indexOf(requested);
+  for (const precision of PRECISION_FALLBACK.slice(start)) {
+    const format = supported.get(precision);
+    if (format) return format;
+  }
+  return supported.get("unorm8")!;
+}
@@ -0,0 +1,84 @@
+import type { TileRect } from "./tiling";
+
+// Decoded 8-bit RGBA pixels, top row first, not premultiplied. This is what the engine reads back and
+// what every backend encodes, so results do not depend on a browser canvas.
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Anything the processor can upload as a texture
+export type TextureData = TexImageSource | RawImage;
+
+export function isRawImage(image: TextureData): image is RawImage {
+  return "data" in image && image.data instanceof Uint8Array;
+}
+
+export function createRawImage(width: number, height: number): RawImage {
+  return { width, height, data: new Uint8Array(width * height * 4) };
+}
+
+export function flipRows(image: RawImage): RawImage {
+  const rowBytes = image.width * 4;
+  const flipped = createRawImage(image.width, image.height);
+  for (let y = 0; y < image.height; y++) {
+    const from = (image.height - 1 - y) * rowBytes;
+    flipped.data.set(image.data.subarray(from, from + rowBytes), y * rowBytes);
+  }
+  return flipped;
+}
+
+// Copies all of `source` into `target` with its top-left corner at (x, y)
+export function blitRawImage(target: RawImage, source: RawImage, x: number, y: number) {
+  const rowBytes = source.width * 4;
+  for (let row = 0; row < source.height; row++) {
+    const from = row * rowBytes;
+    target.data.set(source.data.subarray(from, from + rowBytes), ((y + row) * target.width + x) * 4);
+  }
+}
+
+// The part of `image` that covers `rect` when the image is stretched over width x height. Sampling is
+// bilinear between texel centers with edge clamping, like a LINEAR texture, and is an exact copy when
+// no scaling is involved.
+export function sampleRawImage(image: RawImage, rect: TileRect, width: number, height: number): RawImage {
+  const region = createRawImage(rect.width, rect.height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  if (scaleX === 1 && scaleY === 1) {
+    const rowBytes = rect.width * 4;
+    for (let row = 0; row < rect.height; row++) {
+      const from = ((rect.y + row) * image.width + rect.x) * 4;
+      region.data.set(image.data.subarray(from, from + rowBytes), row * rowBytes);
+    }
+    return region;
+  }
+
+  const clampX = (x: number) => Math.min(image.width - 1, Math.max(0, x));
+  const clampY = (y: number) => Math.min(image.height - 1, Math.max(0, y));
+  for (let row = 0; row < rect.height; row++) {
+    const sy = (rect.y + row + 0.5) * scaleY - 0.5;
+    const y0 = Math.floor(sy);
+    const fy = sy - y0;
+    const top = clampY(y0) * image.width;
+    const bottom = clampY(y0 + 1) * image.width;
+    for (let col = 0; col < rect.width; col++) {
+      const sx = (rect.x + col + 0.5) * scaleX - 0.5;
+      const x0 = Math.floor(sx);
+      const fx = sx - x0;
+      const left = clampX(x0);
+      const right = clampX(x0 + 1);
+      const out = (row * rect.width + col) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const a = image.data[(top + left) * 4 + channel];
+        const b = image.data[(top + right) * 4 + channel];
+        const c = image.data[(bottom + left) * 4 + channel];
+        const d = image.data[(bottom + right) * 4 + channel];
+        const value = (a * (1 - fx) + b * fx) * (1 - fy) + (c * (1 - fx) + d * fx) * fy;
+        region.data[out + channel] = Math.round(value);
+      }
+    }
+  }
+  return region;
+}
@@ -0,0 +1,36 @@
+import createGL from "gl";
+import { CONTEXT_ATTRIBUTES, WebGLProcessor, type RenderSurface } from "../WebGLProcessor";
+
+// headless-gl renders through ANGLE on whatever GL the machine has. Without a GPU that is a software
+// rasterizer such as Mesa llvmpipe or SwiftShader; on Linux it also needs an X display (e.g. xvfb-run).
+// headless-gl only implements WebGL1, so float intermediates depend on OES_texture_float support.
+export function createHeadlessSurface(width: number = 1, height: number = 1): RenderSurface {
+  const gl = createGL(width, height, CONTEXT_ATTRIBUTES);
+  if (!gl) {
+    throw new Error('headless-gl could not create a context; on Linux run under xvfb-run with Mesa installed');
+  }
+  const resizer = gl.getExtension('STACKGL_resize_drawingbuffer');
+  if (!resizer) throw new Error('headless-gl is missing STACKGL_resize_drawingbuffer');
+
+  let size = { width, height };
+  return {
+    gl,
+    get width() {
+      return size.width;
+    },
+    get height() {
+      return size.height;
+    },
+    resize(nextWidth: number, nextHeight: number) {
+      resizer.resize(nextWidth, nextHeight);
+      size = { width: nextWidth, height: nextHeight };
+    },
+    destroy() {
+      gl.getExtension('STACKGL_destroy_context')?.destroy();
+    }
+  };
+}
+
+export function createHeadlessProcessor(): WebGLProcessor {
+  return new WebGLProcessor(createHeadlessSurface());
+}
@@ -0,0 +1,117 @@
+import { createHash } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { encode as encodeJpeg } from "jpeg-js";
+import { decodeImage, encodeImagePng } from "../codecs";
+import { failedResult, rawImageSource, renderImage, type ImageLoader, type RenderOptions, type SourceImage } from "../engine";
+import type { RawImage } from "../image";
+import type { Filter, ProcessingResult } from "../ReglSurface";
+import type { WebGLProcessor } from "../WebGLProcessor";
+import { createHeadlessProcessor } from "./headless";
+import { DEFAULT_OUTPUT_SIZE_POLICY, resolveOutputSize, type OutputSizePolicy } from "@/lib/pipeline/output-size";
+
+// Node entry point: the same engine as the browser, fed with encoded PNG/JPEG buffers instead of URLs.
+// For the same decoded pixels and GL implementation, the PNG output is byte-identical to the browser's.
+
+export { createHeadlessProcessor, createHeadlessSurface } from "./headless";
+
+export type HeadlessOutputFormat = "png" | "jpeg" | "webp";
+
+export interface HeadlessProcessOptions extends Omit<RenderOptions, "auxiliaryImages"> {
+  // Long-lived processor to reuse its programs, textures and cached stages; a temporary one is created
+  // and destroyed per call otherwise
+  processor?: WebGLProcessor;
+  // Encoded images by name, for filter inputs wired to { type: "image" }
+  auxiliaryImages?: { [name: string]: Uint8Array };
+  outputSize?: OutputSizePolicy;
+  format?: HeadlessOutputFormat;
+  // JPEG and WebP quality, 1-100
+  quality?: number;
+}
+
+export interface HeadlessProcessResult {
+  result: ProcessingResult;
+  // Encoded output; null when processing failed
+  output: Uint8Array | null;
+  width: number;
+  height: number;
+}
+
+const DEFAULT_QUALITY = 90;
+
+// Buffers are keyed by content, so the processor's source cache survives across calls
+function bufferKey(bytes: Uint8Array): string {
+  return `buffer:${createHash("sha1").update(bytes).digest("hex")}`;
+}
+
+// WebP goes through libwebp in sharp, an optional native dependency loaded only when WebP is asked for
+async function encodeWebp({ width, height, data }: RawImage, quality: number): Promise<Uint8Array> {
+  let sharp: typeof import("sharp");
+  try {
+    sharp = (await import("sharp")).default;
+  } catch {
+    throw new Error("WebP output needs the optional sharp package, which is not installed");
+  }
+  const output = await sharp(data, { raw: { width, height, channels: 4 } }).webp({ quality }).toBuffer();
+  return new Uint8Array(output.buffer, output.byteOffset, output.byteLength);
+}
+
+// JPEG has no alpha channel: transparent pixels keep their color, so flatten with a matte first
+export async function encodeOutput(
+  pixels: RawImage,
+  format: HeadlessOutputFormat,
+  quality: number = DEFAULT_QUALITY
+): Promise<Uint8Array> {
+  switch (format) {
+    case "png":
+      return encodeImagePng(pixels);
+    case "jpeg":
+      return new Uint8Array(encodeJpeg(pixels, quality).data);
+    case "webp":
+      return encodeWebp(pixels, quality);
+  }
+}
+
+export async function processImageBuffer(
+  input: Uint8Array,
+  pipeline: Filter[],
+  options: HeadlessProcessOptions = {}
+): Promise<HeadlessProcessResult> {
+  const buffers = new Map<string, Uint8Array>();
+  const inputKey = bufferKey(input);
+  buffers.set(inputKey, input);
+  const auxiliaryImages: { [name: string]: string } = {};
+  Object.entries(options.auxiliaryImages ?? {}).forEach(([name, bytes]) => {
+    const key = bufferKey(bytes);
+    buffers.set(key, bytes);
+    auxiliaryImages[name] = key;
+  });
+
+  // Anything that is not one of the buffers above is read from disk. Decoded once per call, since the
+  // input is also needed up front for its size.
+  const decoded = new Map<string, SourceImage>();
+  const loadImage: ImageLoader = async (src) => {
+    if (!decoded.has(src)) {
+      const bytes = buffers.get(src) ?? new Uint8Array(await readFile(src));
+      decoded.set(src, rawImageSource(decodeImage(bytes)));
+    }
+    return decoded.get(src)!;
+  };
+
+  const processor = options.processor ?? createHeadlessProcessor();
+  let width = 0;
+  let height = 0;
+  try {
+    const source = await loadImage(inputKey);
+    ({ width, height } = resolveOutputSize(options.outputSize ?? DEFAULT_OUTPUT_SIZE_POLICY, source.width, source.height));
+    const { result, pixels } = await renderImage(processor, loadImage, inputKey, pipeline, width, height, {
+      ...options,
+      auxiliaryImages
+    });
+    return { result, output: await encodeOutput(pixels, options.format ?? "png", options.quality), width, height };
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    return { result: failedResult(error), output: null, width, height };
+  } finally {
+    if (!options.processor) processor.destroy();
+  }
+}
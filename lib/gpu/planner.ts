@@ -0,0 +1,158 @@
+import type { Filter, InputSource } from "./ReglSurface";
+import { filterRegistry, getFilterHalo, getFilterPasses, getPassUniforms, type FilterDefinition } from "./filters/registry";
+import type { RenderStage, StageInput, StageSource } from "./WebGLProcessor";
+import {
+  getConversionUniforms,
+  resolveFilterColorSpace,
+  type ColorConversion,
+  type FilterColorSpace,
+  type OutputSpace,
+  type WorkingSpace,
+} from "./color";
+import { colorConversionShader } from "./shaders";
+import { checkInputSource, getInputSource, getNodeInputs } from "@/lib/pipeline/graph";
+
+export interface PlannedFilter {
+  filter: Filter;
+  definition: FilterDefinition;
+  // One render stage per pass, each with its own intermediate target
+  stages: RenderStage[];
+  // Index of the first pass in PipelinePlan.stages; color conversions may sit between filters
+  firstStage: number;
+}
+
+export interface ColorOptions {
+  workingSpace: WorkingSpace;
+  outputSpace: OutputSpace;
+}
+
+export interface PipelinePlan {
+  filters: PlannedFilter[];
+  // Flattened stages of every enabled filter plus color conversions, in execution order
+  stages: RenderStage[];
+  // What gets presented: the last enabled filter's output, or whatever a trailing disabled filter forwards
+  output: StageSource;
+  // Names of the loaded images sampled as auxiliary inputs
+  auxiliaryImages: string[];
+}
+
+// Lowers the filter graph to engine stages. Disabled filters are bypassed: they forward their
+// primary input, both to the next filter and to any later filter that reads from them.
+// Every input is converted to the color space its filter declares, at most once per source, and the
+// result is encoded to the output space last.
+export function planPipeline(pipeline: Filter[], width: number, height: number, color: ColorOptions): PipelinePlan {
+  const stages: RenderStage[] = [];
+  const filters: PlannedFilter[] = [];
+  const auxiliaryImages = new Set<string>();
+  const outputs = new Map<string, StageSource>();
+  let previous: StageSource = { type: "source" };
+
+  // Source and auxiliary images are sRGB-encoded; stages hold whatever their filter works in
+  const stageSpaces: FilterColorSpace[] = [];
+  const conversions = new Map<string, StageSource>();
+  const spaceOf = (source: StageSource): FilterColorSpace =>
+    source.type === "stage" ? stageSpaces[source.index] : "perceptual";
+
+  const pushConversion = (source: StageSource, conversion: ColorConversion): StageSource => {
+    const inputs: StageInput[] = [{ uniform: "u_image", source }];
+    stages.push({
+      key: `color:${conversion.from}>${conversion.to}@${color.workingSpace}:${JSON.stringify(inputs)}`,
+      label: `Color conversion (${conversion.from} to ${conversion.to})`,
+      fragmentShader: colorConversionShader,
+      uniforms: getConversionUniforms(conversion, color.workingSpace),
+      inputs,
+    });
+    stageSpaces.push(conversion.to === "linear" ? "linear" : "perceptual");
+    return { type: "stage", index: stages.length - 1 };
+  };
+
+  const convert = (source: StageSource, to: FilterColorSpace): StageSource => {
+    const from = spaceOf(source);
+    if (from === to) return source;
+    const key = `${JSON.stringify(source)}>${to}`;
+    if (!conversions.has(key)) conversions.set(key, pushConversion(source, { from, to }));
+    return conversions.get(key)!;
+  };
+
+  const resolve = (filter: Filter, index: number, source: InputSource): StageSource => {
+    const problem = checkInputSource(pipeline, index, source);
+    if (problem) throw new Error(`${filter.name} ${problem}`);
+
+    switch (source.type) {
+      case "previous":
+        return previous;
+      case "original":
+        return { type: "source" };
+      case "node":
+        return outputs.get(source.nodeId)!;
+      case "image":
+        auxiliaryImages.add(source.imageName);
+        return { type: "auxiliary", key: source.imageName };
+    }
+  };
+
+  pipeline.forEach((filter, index) => {
+    const definition = filterRegistry.resolve(filter.id);
+    const [primary, ...extra] = getNodeInputs(definition);
+    const primarySource = resolve(filter, index, getInputSource(filter, primary));
+
+    if (!filter.enabled) {
+      outputs.set(filter.id, primarySource);
+      previous = primarySource;
+      return;
+    }
+
+    const space = resolveFilterColorSpace(definition.colorSpace, color.workingSpace);
+    const convertedPrimary = convert(primarySource, space);
+    const extraInputs: StageInput[] = extra.map((input) => ({
+      uniform: input.uniform,
+      source: convert(resolve(filter, index, getInputSource(filter, input)), space),
+    }));
+    const passes = getFilterPasses(definition);
+    const parametersKey = JSON.stringify(filter.parameters);
+    const firstStage = stages.length;
+
+    const filterStages: RenderStage[] = passes.map((pass, passIndex) => {
+      // Later passes read the pass before them; extra inputs are available to every pass
+      const inputs: StageInput[] = [
+        {
+          uniform: primary.uniform,
+          source: passIndex === 0 ? convertedPrimary : { type: "stage", index: firstStage + passIndex - 1 },
+        },
+        ...extraInputs,
+      ];
+      return {
+        key: `${filter.id}:${parametersKey}:${JSON.stringify(inputs)}#${passIndex}`,
+        label: passes.length > 1 ? `${filter.name} (${pass.name})` : filter.name,
+        fragmentShader: pass.shader,
+        uniforms: {
+          u_resolution: [width, height],
+          ...getPassUniforms(pass, filter.parameters, { width, height }),
+        },
+        inputs,
+      };
+    });
+
+    stages.push(...filterStages);
+    stageSpaces.push(...filterStages.map(() => space));
+    filters.push({ filter, definition, stages: filterStages, firstStage });
+    previous = { type: "stage", index: stages.length - 1 };
+    outputs.set(filter.id, previous);
+  });
+
+  // sRGB-encoded results are presented as they are
+  const output =
+    spaceOf(previous) === "perceptual" && color.outputSpace === "srgb"
+      ? previous
+      : pushConversion(previous, { from: spaceOf(previous), to: color.outputSpace });
+
+  return { filters, stages, output, auxiliaryImages: Array.from(auxiliaryImages) };
+}
+
+// Upper bound on how far any output pixel reads from the source. Branches of the graph may not stack,
+// but summing every enabled filter is always enough for seamless tiles.
+export function getPipelineHalo(pipeline: Filter[]): number {
+  return pipeline
+    .filter((filter) => filter.enabled)
+    .reduce((total, filter) => total + getFilterHalo(filterRegistry.resolve(filter.id), filter.parameters), 0);
+}
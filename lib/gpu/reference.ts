@@ -0,0 +1,161 @@
+import { filterRegistry } from "./filters/registry";
+import { createFloatImage, type FloatImage } from "./filters/reference";
+import { getConversionUniforms, resolveFilterColorSpace, type ColorConversion, type FilterColorSpace, type WorkingSpace } from "./color";
+import { createRawImage, sampleRawImage, type RawImage } from "./image";
+import type { ColorOptions } from "./planner";
+import type { Filter, InputSource } from "./ReglSurface";
+import { checkInputSource, getInputSource, getNodeInputs } from "@/lib/pipeline/graph";
+import { DEFAULT_PIPELINE_SETTINGS, parseHexColor } from "@/lib/pipeline/settings";
+
+// CPU reference renderer: evaluates a pipeline the way planPipeline lowers it (disabled filters
+// bypassed, inputs converted to each filter's color space once per source, the result encoded to the
+// output space and flattened onto the matte) using each filter's reference implementation, with
+// Float32 intermediates throughout.
+
+export interface ReferenceRenderOptions {
+  // Decoded images by name, for filter inputs wired to { type: "image" }
+  auxiliaryImages?: { [name: string]: RawImage };
+  matte?: string | null;
+  workingSpace?: WorkingSpace;
+  outputSpace?: ColorOptions["outputSpace"];
+}
+
+export function toFloatImage(image: RawImage): FloatImage {
+  const result = createFloatImage(image.width, image.height);
+  image.data.forEach((value, index) => {
+    result.data[index] = value / 255;
+  });
+  return result;
+}
+
+// Rounds to 8 bits the way a UNSIGNED_BYTE readback does
+export function toRawImage(image: FloatImage): RawImage {
+  const result = createRawImage(image.width, image.height);
+  image.data.forEach((value, index) => {
+    result.data[index] = Math.round(Math.min(1, Math.max(0, value)) * 255);
+  });
+  return result;
+}
+
+function srgbToLinear(value: number): number {
+  const a = Math.abs(value);
+  return Math.sign(value) * (a < 0.04045 ? a / 12.92 : Math.pow((a + 0.055) / 1.055, 2.4));
+}
+
+function linearToSrgb(value: number): number {
+  const a = Math.abs(value);
+  return Math.sign(value) * (a < 0.0031308 ? a * 12.92 : 1.055 * Math.pow(a, 1 / 2.4) - 0.055);
+}
+
+// colorConversionShader, using the same uniforms the engine binds
+export function convertReferenceColor(image: FloatImage, conversion: ColorConversion, workingSpace: WorkingSpace): FloatImage {
+  const { u_decode, u_encode, u_matrix: m } = getConversionUniforms(conversion, workingSpace);
+  const result = createFloatImage(image.width, image.height);
+  for (let i = 0; i < image.data.length; i += 4) {
+    let [r, g, b] = [image.data[i], image.data[i + 1], image.data[i + 2]];
+    if (u_decode) [r, g, b] = [srgbToLinear(r), srgbToLinear(g), srgbToLinear(b)];
+    // Column-major, as uploaded to the mat3 uniform
+    const rgb = [m[0] * r + m[3] * g + m[6] * b, m[1] * r + m[4] * g + m[7] * b, m[2] * r + m[5] * g + m[8] * b];
+    result.data.set(u_encode ? rgb.map(linearToSrgb) : rgb, i);
+    result.data[i + 3] = image.data[i + 3];
+  }
+  return result;
+}
+
+interface ReferenceValue {
+  image: FloatImage;
+  space: FilterColorSpace;
+}
+
+// Renders `source` through the pipeline at width x height. Throws if an enabled filter has no
+// reference implementation.
+export function renderReferenceImage(
+  pipeline: Filter[],
+  source: RawImage,
+  width: number,
+  height: number,
+  options: ReferenceRenderOptions = {}
+): RawImage {
+  const workingSpace = options.workingSpace ?? DEFAULT_PIPELINE_SETTINGS.workingSpace;
+  const outputSpace = options.outputSpace ?? DEFAULT_PIPELINE_SETTINGS.outputSpace;
+  const fullFrame = { x: 0, y: 0, width, height };
+  // The engine samples source textures bilinearly at the output resolution
+  const load = (image: RawImage): ReferenceValue => ({
+    image: toFloatImage(sampleRawImage(image, fullFrame, width, height)),
+    space: "perceptual",
+  });
+
+  const original = load(source);
+  const auxiliary = new Map<string, ReferenceValue>();
+  const outputs = new Map<string, ReferenceValue>();
+  const conversions = new Map<ReferenceValue, Map<FilterColorSpace, FloatImage>>();
+  let previous = original;
+
+  const convert = (value: ReferenceValue, to: FilterColorSpace): FloatImage => {
+    if (value.space === to) return value.image;
+    if (!conversions.has(value)) conversions.set(value, new Map());
+    const cached = conversions.get(value)!;
+    if (!cached.has(to)) cached.set(to, convertReferenceColor(value.image, { from: value.space, to }, workingSpace));
+    return cached.get(to)!;
+  };
+
+  const resolve = (filter: Filter, index: number, source: InputSource): ReferenceValue => {
+    const problem = checkInputSource(pipeline, index, source);
+    if (problem) throw new Error(`${filter.name} ${problem}`);
+
+    switch (source.type) {
+      case "previous":
+        return previous;
+      case "original":
+        return original;
+      case "node":
+        return outputs.get(source.nodeId)!;
+      case "image": {
+        const image = options.auxiliaryImages?.[source.imageName];
+        if (!image) throw new Error(`Input image "${source.imageName}" is not loaded`);
+        if (!auxiliary.has(source.imageName)) auxiliary.set(source.imageName, load(image));
+        return auxiliary.get(source.imageName)!;
+      }
+    }
+  };
+
+  pipeline.forEach((filter, index) => {
+    const definition = filterRegistry.resolve(filter.id);
+    const inputs = getNodeInputs(definition);
+    const primary = resolve(filter, index, getInputSource(filter, inputs[0]));
+
+    if (!filter.enabled) {
+      outputs.set(filter.id, primary);
+      previous = primary;
+      return;
+    }
+    if (!definition.reference) throw new Error(`${filter.name} has no CPU reference implementation`);
+
+    const space = resolveFilterColorSpace(definition.colorSpace, workingSpace);
+    const images: { [uniform: string]: FloatImage } = {};
+    inputs.forEach((input, inputIndex) => {
+      const value = inputIndex === 0 ? primary : resolve(filter, index, getInputSource(filter, input));
+      images[input.uniform] = convert(value, space);
+    });
+
+    previous = { image: definition.reference(images, filter.parameters), space };
+    outputs.set(filter.id, previous);
+  });
+
+  const result =
+    previous.space === "perceptual" && outputSpace === "srgb"
+      ? previous.image
+      : convertReferenceColor(previous.image, { from: previous.space, to: outputSpace }, workingSpace);
+
+  if (options.matte) {
+    const [r, g, b] = parseHexColor(options.matte);
+    for (let i = 0; i < result.data.length; i += 4) {
+      const alpha = result.data[i + 3];
+      result.data[i] = r * (1 - alpha) + result.data[i] * alpha;
+      result.data[i + 1] = g * (1 - alpha) + result.data[i + 1] * alpha;
+      result.data[i + 2] = b * (1 - alpha) + result.data[i + 2] * alpha;
+      result.data[i + 3] = 1;
+    }
+  }
+  return toRawImage(result);
+}
@@ -0,0 +1,58 @@
+export const basicVertexShader = `
+attribute vec2 a_position;
+varying vec2 v_texCoord;
+
+void main() {
+  v_texCoord = vec2(a_position.x * 0.5 + 0.5, a_position.y * 0.5 + 0.5);
+  gl_Position = vec4(a_position, 0, 1);
+}
+`;
+
+// Used by the engine to present the last stage; filter shaders live in the filter registry
+export const passthroughShader = `
+    precision mediump float;
+    uniform sampler2D u_image;
+    varying vec2 v_texCoord;
+    void main() {
+      gl_FragColor = texture2D(u_image, v_texCoord);
+    }
+  `;
+
+// Presents onto an opaque background color instead of keeping the alpha channel
+export const matteShader = `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform vec3 u_matte;
+    varying vec2 v_texCoord;
+    void main() {
+      vec4 color = texture2D(u_image, v_texCoord);
+      gl_FragColor = vec4(mix(u_matte, color.rgb, color.a), 1.0);
+    }
+  `;
+
+// Converts between sRGB-encoded and linear values and between primaries (see lib/gpu/color.ts).
+// The transfer functions mirror negative values so out-of-gamut colors survive in float targets.
+export const colorConversionShader = `
+    precision mediump float;
+    uniform sampler2D u_image;
+    uniform bool u_decode;
+    uniform bool u_encode;
+    uniform mat3 u_matrix;
+    varying vec2 v_texCoord;
+    vec3 srgbToLinear(vec3 c) {
+      vec3 a = abs(c);
+      vec3 linear = mix(a / 12.92, pow((a + 0.055) / 1.055, vec3(2.4)), step(0.04045, a));
+      return sign(c) * linear;
+    }
+    vec3 linearToSrgb(vec3 c) {
+      vec3 a = abs(c);
+      vec3 encoded = mix(a * 12.92, 1.055 * pow(a, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, a));
+      return sign(c) * encoded;
+    }
+    void main() {
+      vec4 color = texture2D(u_image, v_texCoord);
+      vec3 rgb = u_decode ? srgbToLinear(color.rgb) : color.rgb;
+      rgb = u_matrix * rgb;
+      gl_FragColor = vec4(u_encode ? linearToSrgb(rgb) : rgb, color.a);
+    }
+  `;
@@ -0,0 +1,48 @@
+// Splits an output image into tiles that each fit in a single render target.
+// Every tile is rendered with a halo of extra pixels on the sides that border other tiles, so
+// neighborhood filters see the same inputs they would on the whole image; only the interior is kept.
+
+export interface TileRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Tile {
+  // Region of the output this tile produces
+  rect: TileRect;
+  // Region actually rendered: `rect` grown by the halo and clamped to the image
+  padded: TileRect;
+}
+
+export function planTiles(width: number, height: number, maxTileSize: number, halo: number): Tile[] {
+  if (width <= maxTileSize && height <= maxTileSize) {
+    const rect = { x: 0, y: 0, width, height };
+    return [{ rect, padded: rect }];
+  }
+
+  const step = maxTileSize - 2 * halo;
+  if (step < 1) {
+    throw new Error(`Pipeline reaches ${halo}px around each pixel, too far to tile within ${maxTileSize}px render targets`);
+  }
+
+  // Even tile sizes, so no sliver of a tile is left at the right or bottom edge
+  const columns = Math.ceil(width / step);
+  const rows = Math.ceil(height / step);
+  const tileWidth = Math.ceil(width / columns);
+  const tileHeight = Math.ceil(height / rows);
+
+  const tiles: Tile[] = [];
+  for (let y = 0; y < height; y += tileHeight) {
+    for (let x = 0; x < width; x += tileWidth) {
+      const rect = { x, y, width: Math.min(tileWidth, width - x), height: Math.min(tileHeight, height - y) };
+      const left = Math.max(0, x - halo);
+      const top = Math.max(0, y - halo);
+      const right = Math.min(width, x + rect.width + halo);
+      const bottom = Math.min(height, y + rect.height + halo);
+      tiles.push({ rect, padded: { x: left, y: top, width: right - left, height: bottom - top } });
+    }
+  }
+  return tiles;
+}
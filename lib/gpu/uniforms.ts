@@ -0,0 +1,163 @@
+// Uniform introspection and type-checked binding.
+// Active uniforms are read back with getActiveUniform so values are bound with the
+// setter that matches the GLSL declaration instead of guessing from the JS type.
+
+export type UniformValue = number | boolean | ArrayLike<number> | boolean[];
+
+export interface UniformInfo {
+  // Name without the "[0]" suffix GL reports for arrays
+  name: string;
+  type: number;
+  // Array length; 1 for non-array uniforms
+  size: number;
+  location: WebGLUniformLocation;
+}
+
+export class UniformBindingError extends Error {
+  constructor(message: string, readonly issues: string[]) {
+    super(message);
+    this.name = "UniformBindingError";
+  }
+}
+
+// Uniforms the engine supplies to every stage; shaders are free to ignore them
+export const ENGINE_UNIFORMS = new Set(['u_image', 'u_resolution']);
+
+type GL = WebGLRenderingContext | WebGL2RenderingContext;
+
+interface TypeInfo {
+  glsl: string;
+  components: number;
+  kind: 'float' | 'int' | 'bool' | 'matrix' | 'sampler';
+}
+
+function describeType(gl: GL, type: number): TypeInfo | null {
+  switch (type) {
+    case gl.FLOAT: return { glsl: 'float', components: 1, kind: 'float' };
+    case gl.FLOAT_VEC2: return { glsl: 'vec2', components: 2, kind: 'float' };
+    case gl.FLOAT_VEC3: return { glsl: 'vec3', components: 3, kind: 'float' };
+    case gl.FLOAT_VEC4: return { glsl: 'vec4', components: 4, kind: 'float' };
+    case gl.INT: return { glsl: 'int', components: 1, kind: 'int' };
+    case gl.INT_VEC2: return { glsl: 'ivec2', components: 2, kind: 'int' };
+    case gl.INT_VEC3: return { glsl: 'ivec3', components: 3, kind: 'int' };
+    case gl.INT_VEC4: return { glsl: 'ivec4', components: 4, kind: 'int' };
+    case gl.BOOL: return { glsl: 'bool', components: 1, kind: 'bool' };
+    case gl.BOOL_VEC2: return { glsl: 'bvec2', components: 2, kind: 'bool' };
+    case gl.BOOL_VEC3: return { glsl: 'bvec3', components: 3, kind: 'bool' };
+    case gl.BOOL_VEC4: return { glsl: 'bvec4', components: 4, kind: 'bool' };
+    case gl.FLOAT_MAT2: return { glsl: 'mat2', components: 4, kind: 'matrix' };
+    case gl.FLOAT_MAT3: return { glsl: 'mat3', components: 9, kind: 'matrix' };
+    case gl.FLOAT_MAT4: return { glsl: 'mat4', components: 16, kind: 'matrix' };
+    case gl.SAMPLER_2D: return { glsl: 'sampler2D', components: 1, kind: 'sampler' };
+    case gl.SAMPLER_CUBE: return { glsl: 'samplerCube', components: 1, kind: 'sampler' };
+    default: return null;
+  }
+}
+
+export function introspectUniforms(gl: GL, program: WebGLProgram): Map<string, UniformInfo> {
+  const uniforms = new Map<string, UniformInfo>();
+  const count = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS) as number;
+
+  for (let i = 0; i < count; i++) {
+    const active = gl.getActiveUniform(program, i);
+    if (!active) continue;
+    const location = gl.getUniformLocation(program, active.name);
+    if (!location) continue;
+
+    const name = active.name.replace(/\[0\]$/, '');
+    uniforms.set(name, { name, type: active.type, size: active.size, location });
+  }
+
+  return uniforms;
+}
+
+function flatten(value: UniformValue): number[] {
+  if (typeof value === 'number') return [value];
+  if (typeof value === 'boolean') return [value ? 1 : 0];
+  return Array.from(value as ArrayLike<number | boolean>, v => (typeof v === 'boolean' ? (v ? 1 : 0) : v));
+}
+
+// Binds one value, returning a description of the problem instead of throwing so callers can collect all issues
+export function bindUniform(gl: GL, info: UniformInfo, value: UniformValue): string | null {
+  const type = describeType(gl, info.type);
+  if (!type) return `${info.name}: unsupported uniform type 0x${info.type.toString(16)}`;
+
+  const data = flatten(value);
+  const expected = type.components * info.size;
+  const declaration = `${type.glsl}${info.size > 1 ? `[${info.size}]` : ''}`;
+
+  // Arrays may be partially filled from the start, like uniform*v allows
+  const lengthOk = info.size > 1
+    ? data.length > 0 && data.length % type.components === 0 && data.length <= expected
+    : data.length === expected;
+  if (!lengthOk) {
+    return `${info.name}: expected ${declaration} (${expected} values), got ${data.length}`;
+  }
+  if (data.some(v => !Number.isFinite(v))) {
+    return `${info.name}: ${declaration} contains a non-finite value`;
+  }
+  if ((type.kind === 'int' || type.kind === 'sampler') && data.some(v => !Number.isInteger(v))) {
+    return `${info.name}: ${declaration} requires integer values`;
+  }
+
+  const location = info.location;
+  switch (type.kind) {
+    case 'float':
+      switch (type.components) {
+        case 1: gl.uniform1fv(location, data); break;
+        case 2: gl.uniform2fv(location, data); break;
+        case 3: gl.uniform3fv(location, data); break;
+        case 4: gl.uniform4fv(location, data); break;
+      }
+      break;
+    case 'int':
+    case 'bool':
+    case 'sampler':
+      switch (type.components) {
+        case 1: gl.uniform1iv(location, data); break;
+        case 2: gl.uniform2iv(location, data); break;
+        case 3: gl.uniform3iv(location, data); break;
+        case 4: gl.uniform4iv(location, data); break;
+      }
+      break;
+    case 'matrix':
+      switch (type.components) {
+        case 4: gl.uniformMatrix2fv(location, false, data); break;
+        case 9: gl.uniformMatrix3fv(location, false, data); break;
+        case 16: gl.uniformMatrix4fv(location, false, data); break;
+      }
+      break;
+  }
+
+  return null;
+}
+
+// Binds every supplied value and checks both directions: supplied values must match an active
+// uniform of a compatible type, and every active non-engine uniform must receive a value.
+export function bindUniforms(
+  gl: GL,
+  active: Map<string, UniformInfo>,
+  values: { [name: string]: UniformValue }
+): string[] {
+  const issues: string[] = [];
+
+  Object.entries(values).forEach(([name, value]) => {
+    const info = active.get(name);
+    if (!info) {
+      if (!ENGINE_UNIFORMS.has(name)) {
+        issues.push(`${name}: no active uniform with this name (undeclared, misspelled or optimized out)`);
+      }
+      return;
+    }
+    const issue = bindUniform(gl, info, value);
+    if (issue) issues.push(issue);
+  });
+
+  active.forEach(info => {
+    if (!(info.name in values)) {
+      issues.push(`${info.name}: declared in the shader but no value was supplied`);
+    }
+  });
+
+  return issues;
+}
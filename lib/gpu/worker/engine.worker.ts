@@ -0,0 +1,89 @@
+import { loadBrowserImage } from "../canvas-source";
+import { encodeImagePng, toDataUrl } from "../codecs";
+import { failedResult, renderImage } from "../engine";
+import type { RawImage } from "../image";
+import { WebGLProcessor, createCanvasSurface } from "../WebGLProcessor";
+import type { JobProgress, WorkerJob, WorkerRequest, WorkerResponse } from "./protocol";
+
+// Engine worker: one long-lived processor on an OffscreenCanvas that runs submitted jobs in order, so
+// decoding, rendering, readback and PNG encoding all stay off the main thread.
+
+// The project compiles against lib.dom; these are the only worker globals used
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage(message: WorkerResponse, transfer?: Transferable[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let processor: WebGLProcessor | null = null;
+const queue: { jobId: number; job: WorkerJob }[] = [];
+let running: { jobId: number; abort: AbortController } | null = null;
+
+function post(message: WorkerResponse, transfer: Transferable[] = []) {
+  scope.postMessage(message, transfer);
+}
+
+function postProgress(jobId: number, progress: JobProgress) {
+  post({ type: "progress", jobId, progress });
+}
+
+function toImageBitmap(pixels: RawImage): Promise<ImageBitmap> {
+  const data = new Uint8ClampedArray(pixels.data.buffer, pixels.data.byteOffset, pixels.data.length);
+  return createImageBitmap(new ImageData(data, pixels.width, pixels.height));
+}
+
+async function runJob(jobId: number, { src, pipeline, width, height, options, output }: WorkerJob, signal: AbortSignal) {
+  if (!processor) {
+    try {
+      processor = new WebGLProcessor(createCanvasSurface(new OffscreenCanvas(1, 1)));
+    } catch (error) {
+      return post({ type: "unsupported", jobId, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  try {
+    const { result, pixels } = await renderImage(processor, loadBrowserImage, src, pipeline, width, height, {
+      ...options,
+      onProgress: (completed, total) => postProgress(jobId, { phase: "rendering", completed, total }),
+      signal
+    });
+    if (signal.aborted) return post({ type: "cancelled", jobId });
+
+    postProgress(jobId, { phase: "encoding", completed: 0, total: 1 });
+    const bitmap = output.bitmap ? await toImageBitmap(pixels) : undefined;
+    const imageDataUrl = output.dataUrl ? toDataUrl(encodeImagePng(pixels), "image/png") : undefined;
+    post({ type: "result", jobId, result: { ...result, imageDataUrl }, bitmap }, bitmap ? [bitmap] : []);
+  } catch (error) {
+    post(signal.aborted ? { type: "cancelled", jobId } : { type: "result", jobId, result: failedResult(error) });
+  }
+}
+
+async function drain() {
+  if (running) return;
+  while (queue.length > 0) {
+    const { jobId, job } = queue.shift()!;
+    running = { jobId, abort: new AbortController() };
+    await runJob(jobId, job, running.abort.signal);
+  }
+  running = null;
+}
+
+scope.onmessage = ({ data: message }) => {
+  switch (message.type) {
+    case "submit":
+      queue.push({ jobId: message.jobId, job: message.job });
+      if (running) postProgress(message.jobId, { phase: "queued", completed: 0, total: 1 });
+      void drain();
+      break;
+    case "cancel": {
+      const index = queue.findIndex((entry) => entry.jobId === message.jobId);
+      if (index >= 0) {
+        queue.splice(index, 1);
+        post({ type: "cancelled", jobId: message.jobId });
+      } else if (message.jobId === running?.jobId) {
+        running.abort.abort();
+      }
+      break;
+    }
+  }
+};
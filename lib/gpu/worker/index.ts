@@ -0,0 +1,178 @@
+import type { RenderOptions } from "../engine";
+import type { Filter, ProcessingResult } from "../ReglSurface";
+import type { JobProgress, WorkerRequest, WorkerResponse } from "./protocol";
+
+// Main-thread side of the engine worker. Jobs run one at a time in each worker, in submission order;
+// EngineWorkerPool spreads them over several workers to run images in parallel.
+
+export type { JobPhase, JobProgress } from "./protocol";
+
+export interface WorkerProcessOptions extends Omit<RenderOptions, "onProgress"> {
+  onProgress?: (progress: JobProgress) => void;
+  // Aborting cancels the job; its promise rejects with an AbortError
+  signal?: AbortSignal;
+  // Return a PNG data URL in result.imageDataUrl (default) and/or an ImageBitmap of the pixels
+  dataUrl?: boolean;
+  bitmap?: boolean;
+}
+
+export interface WorkerProcessResult {
+  result: ProcessingResult;
+  bitmap?: ImageBitmap;
+}
+
+interface PendingJob {
+  resolve(result: WorkerProcessResult): void;
+  reject(error: Error): void;
+  onProgress?: (progress: JobProgress) => void;
+  cleanup(): void;
+}
+
+// Every worker owns a WebGL context. Browsers keep only 8-16 live contexts and drop the oldest beyond
+// that, and the preview and the main-thread ProcessorPool hold some too.
+export const MAX_ENGINE_WORKERS = 4;
+export const DEFAULT_ENGINE_WORKERS = 2;
+
+// OffscreenCanvas is what lets the worker own a WebGL context
+export function supportsEngineWorker(): boolean {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+}
+
+// 0-1 through the job, for progress bars: tiles while rendering, done once encoding starts
+export function progressFraction({ phase, completed, total }: JobProgress): number {
+  if (phase === "queued") return 0;
+  return phase === "encoding" ? 1 : completed / total;
+}
+
+function abortError(): DOMException {
+  return new DOMException("Processing was cancelled", "AbortError");
+}
+
+export class EngineWorker {
+  private worker: Worker;
+  private nextJobId = 1;
+  private pending = new Map<number, PendingJob>();
+
+  constructor() {
+    this.worker = new Worker(new URL("./engine.worker.ts", import.meta.url), { type: "module" });
+    this.worker.onmessage = (event: MessageEvent<WorkerResponse>) => this.handleMessage(event.data);
+    // A worker that fails to start or crashes takes every pending job with it
+    this.worker.onerror = (event) => {
+      event.preventDefault();
+      this.rejectAll(new Error(event.message || "The engine worker stopped"));
+    };
+  }
+
+  // Same contract as processImageWithPipeline: failures resolve with an unsuccessful result. Rejects
+  // only when the job is cancelled or the worker cannot render at all.
+  process(
+    imageSrc: string,
+    pipeline: Filter[],
+    width: number,
+    height: number,
+    options: WorkerProcessOptions = {}
+  ): Promise<WorkerProcessResult> {
+    const { onProgress, signal, dataUrl = true, bitmap = false, ...renderOptions } = options;
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    const jobId = this.nextJobId++;
+    return new Promise((resolve, reject) => {
+      const cancel = () => this.post({ type: "cancel", jobId });
+      signal?.addEventListener("abort", cancel, { once: true });
+      this.pending.set(jobId, {
+        resolve,
+        reject,
+        onProgress,
+        cleanup: () => signal?.removeEventListener("abort", cancel)
+      });
+      this.post({
+        type: "submit",
+        jobId,
+        job: { src: imageSrc, pipeline, width, height, options: renderOptions, output: { dataUrl, bitmap } }
+      });
+    });
+  }
+
+  // Jobs submitted and not yet settled, including the running one
+  get pendingJobs(): number {
+    return this.pending.size;
+  }
+
+  // Stops the worker and its GL context; pending jobs reject with an AbortError
+  destroy() {
+    this.worker.terminate();
+    this.rejectAll(abortError());
+  }
+
+  private post(message: WorkerRequest) {
+    this.worker.postMessage(message);
+  }
+
+  private settle(jobId: number): PendingJob | undefined {
+    const job = this.pending.get(jobId);
+    this.pending.delete(jobId);
+    job?.cleanup();
+    return job;
+  }
+
+  private handleMessage(message: WorkerResponse) {
+    switch (message.type) {
+      case "progress":
+        this.pending.get(message.jobId)?.onProgress?.(message.progress);
+        break;
+      case "result":
+        this.settle(message.jobId)?.resolve({ result: message.result, bitmap: message.bitmap });
+        break;
+      case "cancelled":
+        this.settle(message.jobId)?.reject(abortError());
+        break;
+      case "unsupported":
+        this.settle(message.jobId)?.reject(new Error(message.error));
+        break;
+    }
+  }
+
+  private rejectAll(error: Error) {
+    for (const jobId of [...this.pending.keys()]) this.settle(jobId)?.reject(error);
+  }
+}
+
+// Workers are started on demand: a job goes to an idle worker, or starts a new one while fewer than
+// `size` exist, and otherwise queues behind the worker with the fewest pending jobs.
+export class EngineWorkerPool {
+  private workers: EngineWorker[] = [];
+
+  constructor(private size: number = DEFAULT_ENGINE_WORKERS) {}
+
+  // Extra workers are stopped, so only resize between batches
+  resize(size: number) {
+    this.size = Math.max(1, Math.min(MAX_ENGINE_WORKERS, size));
+    this.workers.splice(this.size).forEach((worker) => worker.destroy());
+  }
+
+  process(
+    imageSrc: string,
+    pipeline: Filter[],
+    width: number,
+    height: number,
+    options: WorkerProcessOptions = {}
+  ): Promise<WorkerProcessResult> {
+    return this.pick().process(imageSrc, pipeline, width, height, options);
+  }
+
+  destroy() {
+    this.workers.forEach((worker) => worker.destroy());
+    this.workers = [];
+  }
+
+  private pick(): EngineWorker {
+    const least = this.workers.reduce<EngineWorker | null>(
+      (best, worker) => (!best || worker.pendingJobs < best.pendingJobs ? worker : best),
+      null
+    );
+    if (least && (least.pendingJobs === 0 || this.workers.length >= this.size)) return least;
+    const worker = new EngineWorker();
+    this.workers.push(worker);
+    return worker;
+  }
+}
@@ -0,0 +1,37 @@
+import type { RenderOptions } from "../engine";
+import type { Filter, ProcessingResult } from "../ReglSurface";
+
+// Messages between EngineWorker (main thread) and engine.worker.ts. Everything here must survive
+// structured cloning; ImageBitmaps are transferred rather than copied.
+
+export interface WorkerJob {
+  // URL the worker fetches itself; object and data URLs from the page work as well
+  src: string;
+  pipeline: Filter[];
+  width: number;
+  height: number;
+  options: Omit<RenderOptions, "onProgress" | "signal">;
+  // What to send back: a PNG data URL (encoded in the worker) and/or an ImageBitmap to draw directly
+  output: { dataUrl: boolean; bitmap: boolean };
+}
+
+export type WorkerRequest =
+  | { type: "submit"; jobId: number; job: WorkerJob }
+  // Queued jobs are dropped; a running job stops before its next tile
+  | { type: "cancel"; jobId: number };
+
+export type JobPhase = "queued" | "rendering" | "encoding";
+
+export interface JobProgress {
+  phase: JobPhase;
+  // Tiles rendered so far, while rendering
+  completed: number;
+  total: number;
+}
+
+export type WorkerResponse =
+  | { type: "progress"; jobId: number; progress: JobProgress }
+  | { type: "result"; jobId: number; result: ProcessingResult; bitmap?: ImageBitmap }
+  | { type: "cancelled"; jobId: number }
+  // The worker cannot render at all, e.g. no WebGL on OffscreenCanvas; the caller should fall back
+  | { type: "unsupported"; jobId: number; error: string };
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { filterRegistry } from "@/lib/gpu/filters/registry";
+import { parsePipelineDocument } from "./document";
+
+function blurRadiusAfterImport(schemaVersion: number, radius: number): number {
+  const { filters } = parsePipelineDocument(
+    { schemaVersion, filters: [{ filter: "blur", parameters: { radius } }] },
+    filterRegistry.templates()
+  );
+  return filters[0].parameters.radius;
+}
+
+describe("pipeline document migrations", () => {
+  it("converts box blur radii from schema 2 to the Gaussian radius with the same spread", () => {
+    assert.equal(blurRadiusAfterImport(2, 1), 4);
+  });
+
+  it("keeps Gaussian blur radii from schema 3 on", () => {
+    assert.equal(blurRadiusAfterImport(3, 1), 1);
+  });
+
+  it("gives linear pipelines entry ids", () => {
+    const { filters } = parsePipelineDocument(
+      { schemaVersion: 3, filters: [{ filter: "blur", parameters: {} }, { filter: "blur", parameters: {} }] },
+      filterRegistry.templates()
+    );
+    assert.equal(filters.length, 2);
+    assert.notEqual(filters[0].id, filters[1].id);
+  });
+});
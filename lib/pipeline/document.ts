@@ -0,0 +1,315 @@
+import { z } from "zod";
+import type { Filter, FilterTemplate, InputSource } from "@/lib/gpu/ReglSurface";
+import { MAX_BLUR_RADIUS } from "@/lib/gpu/filters/kernels";
+import { PRIMARY_INPUT } from "./graph";
+import { DEFAULT_PIPELINE_SETTINGS, type PipelineSettings } from "./settings";
+
+// Pipeline documents are the on-disk / shareable form of the `pipeline` state.
+// Bump PIPELINE_SCHEMA_VERSION when the shape changes and add a migration from the previous version.
+// Additions to `settings` that have a default do not need a new version.
+export const PIPELINE_SCHEMA_VERSION = 6;
+
+// Node references use the entry ids of the document, which are remapped to fresh instance ids on import
+const inputSourceSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("previous") }),
+  z.object({ type: z.literal("original") }),
+  z.object({ type: z.literal("node"), nodeId: z.string().min(1) }),
+  z.object({ type: z.literal("image"), imageName: z.string().min(1) }),
+]);
+
+const filterEntrySchema = z.object({
+  id: z.string().min(1),
+  filter: z.string().min(1),
+  enabled: z.boolean().default(true),
+  parameters: z.record(z.string(), z.number().finite()).default({}),
+  inputs: z.record(z.string(), inputSourceSchema).optional(),
+});
+
+const settingsSchema = z.object({
+  precision: z.enum(["unorm8", "half", "float"]).default(DEFAULT_PIPELINE_SETTINGS.precision),
+  matte: z
+    .string()
+    .regex(/^#[0-9a-f]{6}$/i, "expected a #rrggbb color")
+    .nullable()
+    .default(DEFAULT_PIPELINE_SETTINGS.matte),
+  workingSpace: z
+    .enum(["srgb", "srgb-linear", "display-p3-linear", "acescg"])
+    .default(DEFAULT_PIPELINE_SETTINGS.workingSpace),
+  outputSpace: z.enum(["srgb", "display-p3"]).default(DEFAULT_PIPELINE_SETTINGS.outputSpace),
+});
+
+const pipelineDocumentSchema = z.object({
+  schemaVersion: z.literal(PIPELINE_SCHEMA_VERSION),
+  name: z.string().optional(),
+  exportedAt: z.string().optional(),
+  settings: settingsSchema.default({}),
+  filters: z.array(filterEntrySchema),
+});
+
+// Version 1 was a plain dump of the `Filter[]` state, either bare or wrapped with a version tag
+const legacyFilterSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().optional(),
+  type: z.string().optional(),
+  parameters: z.record(z.string(), z.number().finite()),
+  enabled: z.boolean(),
+});
+
+const pipelineDocumentV1Schema = z.union([
+  z.array(legacyFilterSchema),
+  z.object({ version: z.literal(1), pipeline: z.array(legacyFilterSchema) }),
+]);
+
+const pipelineDocumentV2Schema = z.object({
+  schemaVersion: z.literal(2),
+  name: z.string().optional(),
+  exportedAt: z.string().optional(),
+  filters: z.array(filterEntrySchema.omit({ id: true, inputs: true })),
+});
+
+const pipelineDocumentV3Schema = pipelineDocumentV2Schema.extend({
+  schemaVersion: z.literal(3),
+});
+
+const pipelineDocumentV4Schema = pipelineDocumentSchema.omit({ schemaVersion: true, settings: true }).extend({
+  schemaVersion: z.literal(4),
+});
+
+const pipelineDocumentV5Schema = pipelineDocumentSchema.extend({
+  schemaVersion: z.literal(5),
+  settings: settingsSchema.omit({ workingSpace: true, outputSpace: true }).default({}),
+});
+
+export type PipelineDocument = z.infer<typeof pipelineDocumentSchema>;
+export type PipelineFilterEntry = z.infer<typeof filterEntrySchema>;
+
+export class PipelineDocumentError extends Error {
+  constructor(message: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = "PipelineDocumentError";
+  }
+}
+
+type Migration = (document: unknown) => unknown;
+
+// Blur's default radius while it was a box blur
+const BOX_BLUR_DEFAULT_RADIUS = 1;
+
+// Until version 3, blur was a 5x5 box whose samples were `radius` pixels apart, a per-axis variance of
+// 2r². The Gaussian blur's radius is about 3σ, so the same spread is 3√2·r, rounded to the slider step.
+function boxBlurToGaussianRadius(radius: number): number {
+  return Math.min(Math.max(Math.round(6 * Math.SQRT2 * radius) / 2, 0.5), MAX_BLUR_RADIUS);
+}
+
+// migrations[n] upgrades a version-n document to version n + 1
+const migrations: Record<number, Migration> = {
+  1: (document) => {
+    const parsed = pipelineDocumentV1Schema.parse(document);
+    const filters = Array.isArray(parsed) ? parsed : parsed.pipeline;
+    return {
+      schemaVersion: 2,
+      filters: filters.map((filter) => ({
+        filter: filter.id.split("-")[0],
+        enabled: filter.enabled,
+        parameters: filter.parameters,
+      })),
+    };
+  },
+  // Version 3 made blur a Gaussian, so box blur radii are converted to the Gaussian radius with the same spread
+  2: (document) => {
+    const parsed = pipelineDocumentV2Schema.parse(document);
+    return {
+      ...parsed,
+      schemaVersion: 3,
+      filters: parsed.filters.map((entry) =>
+        entry.filter === "blur"
+          ? {
+              ...entry,
+              parameters: {
+                ...entry.parameters,
+                radius: boxBlurToGaussianRadius(entry.parameters.radius ?? BOX_BLUR_DEFAULT_RADIUS),
+              },
+            }
+          : entry
+      ),
+    };
+  },
+  // Version 4 added entry ids and input wiring; version 3 pipelines were linear chains
+  3: (document) => {
+    const parsed = pipelineDocumentV3Schema.parse(document);
+    return {
+      ...parsed,
+      schemaVersion: 4,
+      filters: parsed.filters.map((entry, index) => ({ ...entry, id: `node${index + 1}` })),
+    };
+  },
+  // Version 5 added pipeline settings. Earlier pipelines rendered with 8-bit intermediates, so they keep
+  // that precision rather than silently changing their output.
+  4: (document) => {
+    const parsed = pipelineDocumentV4Schema.parse(document);
+    return { ...parsed, schemaVersion: 5, settings: { precision: "unorm8", matte: null } };
+  },
+  // Version 6 added color management. Earlier pipelines filtered sRGB-encoded values, so they stay
+  // unmanaged; defaulting them to a linear working space would change their output.
+  5: (document) => {
+    const parsed = pipelineDocumentV5Schema.parse(document);
+    return { ...parsed, schemaVersion: 6, settings: { ...parsed.settings, workingSpace: "srgb", outputSpace: "srgb" } };
+  },
+};
+
+function detectVersion(document: unknown): number {
+  if (Array.isArray(document)) return 1;
+  if (document && typeof document === "object") {
+    const record = document as Record<string, unknown>;
+    if (typeof record.schemaVersion === "number") return record.schemaVersion;
+    if (typeof record.version === "number") return record.version;
+  }
+  throw new PipelineDocumentError("Not a pipeline document: missing schemaVersion");
+}
+
+function formatZodIssues(error: z.ZodError): string[] {
+  return error.issues.map((issue) => `${issue.path.length > 0 ? issue.path.join(".") : "document"}: ${issue.message}`);
+}
+
+function migrate(document: unknown): PipelineDocument {
+  let version = detectVersion(document);
+  if (version > PIPELINE_SCHEMA_VERSION) {
+    throw new PipelineDocumentError(
+      `Pipeline was saved by a newer version (schema ${version}); this app supports up to schema ${PIPELINE_SCHEMA_VERSION}`
+    );
+  }
+
+  let current = document;
+  while (version < PIPELINE_SCHEMA_VERSION) {
+    const migration = migrations[version];
+    if (!migration) throw new PipelineDocumentError(`Unsupported pipeline schema version ${version}`);
+    try {
+      current = migration(current);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        throw new PipelineDocumentError(`Invalid schema ${version} pipeline document`, formatZodIssues(error));
+      }
+      throw error;
+    }
+    version++;
+  }
+
+  const result = pipelineDocumentSchema.safeParse(current);
+  if (!result.success) {
+    throw new PipelineDocumentError("Invalid pipeline document", formatZodIssues(result.error));
+  }
+  return result.data;
+}
+
+let instanceCounter = 0;
+
+// Instance ids keep the template id as the prefix before the first "-", which is how the filter registry resolves them
+export function createFilterId(templateId: string): string {
+  return `${templateId}-${Date.now()}-${instanceCounter++}`;
+}
+
+export function instantiateFilter(
+  template: FilterTemplate,
+  parameters: { [key: string]: number } = {},
+  enabled: boolean = true
+): Filter {
+  return {
+    id: createFilterId(template.id),
+    name: template.name,
+    type: template.type,
+    parameters: { ...template.defaultParams, ...parameters },
+    enabled,
+    paramConfig: template.paramConfig,
+  };
+}
+
+export interface ParsedPipeline {
+  filters: Filter[];
+  settings: PipelineSettings;
+}
+
+export function serializePipeline(
+  pipeline: Filter[],
+  settings: PipelineSettings = DEFAULT_PIPELINE_SETTINGS,
+  name?: string
+): PipelineDocument {
+  return {
+    schemaVersion: PIPELINE_SCHEMA_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    settings: { ...settings },
+    filters: pipeline.map((filter) => ({
+      id: filter.id,
+      filter: filter.id.split("-")[0],
+      enabled: filter.enabled,
+      parameters: { ...filter.parameters },
+      ...(filter.inputs && Object.keys(filter.inputs).length > 0 ? { inputs: { ...filter.inputs } } : {}),
+    })),
+  };
+}
+
+// Parses, migrates and validates a document against the available filter templates.
+// All problems are collected into a single PipelineDocumentError rather than failing on the first one.
+export function parsePipelineDocument(document: unknown, templates: FilterTemplate[]): ParsedPipeline {
+  const parsed = migrate(document);
+  const issues: string[] = [];
+
+  // Document entry id -> new instance id, filled in order so only earlier entries can be referenced
+  const instanceIds = new Map<string, string>();
+
+  const filters = parsed.filters.flatMap((entry, index) => {
+    const position = `Filter ${index + 1}`;
+    if (instanceIds.has(entry.id)) {
+      issues.push(`${position}: duplicate id "${entry.id}"`);
+    }
+    const template = templates.find((t) => t.id === entry.filter);
+    if (!template) {
+      issues.push(`${position}: unknown filter "${entry.filter}"`);
+      return [];
+    }
+
+    Object.entries(entry.parameters).forEach(([param, value]) => {
+      const config = template.paramConfig[param];
+      if (!config) {
+        issues.push(`${position} (${template.name}): unknown parameter "${param}"`);
+      } else if (value < config.min || value > config.max) {
+        issues.push(`${position} (${template.name}): ${param} = ${value} is outside ${config.min}..${config.max}`);
+      }
+    });
+
+    const filter = instantiateFilter(template, entry.parameters, entry.enabled);
+    if (entry.inputs) {
+      const inputs: { [inputId: string]: InputSource } = {};
+      Object.entries(entry.inputs).forEach(([inputId, source]) => {
+        if (inputId !== PRIMARY_INPUT && !template.inputs?.some((input) => input.id === inputId)) {
+          issues.push(`${position} (${template.name}): unknown input "${inputId}"`);
+        } else if (source.type === "node") {
+          const nodeId = instanceIds.get(source.nodeId);
+          if (nodeId) inputs[inputId] = { type: "node", nodeId };
+          else issues.push(`${position} (${template.name}): input "${inputId}" must read from an earlier filter, not "${source.nodeId}"`);
+        } else {
+          inputs[inputId] = source;
+        }
+      });
+      filter.inputs = inputs;
+    }
+
+    instanceIds.set(entry.id, filter.id);
+    return [filter];
+  });
+
+  if (issues.length > 0) {
+    throw new PipelineDocumentError("Pipeline references unknown filters or invalid parameters", issues);
+  }
+  return { filters, settings: parsed.settings };
+}
+
+export function parsePipelineJson(json: string, templates: FilterTemplate[]): ParsedPipeline {
+  let document: unknown;
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new PipelineDocumentError("Pipeline file is not valid JSON");
+  }
+  return parsePipelineDocument(document, templates);
+}
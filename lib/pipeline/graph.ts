@@ -0,0 +1,86 @@
+import type { Filter, InputSource } from "@/lib/gpu/ReglSurface";
+import type { FilterDefinition } from "@/lib/gpu/filters/registry";
+
+// The pipeline is a DAG whose topological order is the list order: every filter reads its primary
+// input (and any extra inputs its definition declares) from the previous filter, the original image,
+// an earlier filter or another loaded image. Forward references are never valid, so there are no cycles.
+
+export const PRIMARY_INPUT = "image";
+
+export interface NodeInput {
+  id: string;
+  label: string;
+  uniform: string;
+  defaultSource: InputSource;
+}
+
+// Primary input first, then the definition's extra inputs
+export function getNodeInputs(definition: FilterDefinition): NodeInput[] {
+  return [
+    {
+      id: PRIMARY_INPUT,
+      label: "Input",
+      uniform: "u_image",
+      defaultSource: { type: definition.primaryInput ?? "previous" },
+    },
+    ...(definition.inputs ?? []).map((input) => ({
+      id: input.id,
+      label: input.label,
+      uniform: input.uniform,
+      defaultSource: { type: input.default } as InputSource,
+    })),
+  ];
+}
+
+export function getInputSource(filter: Filter, input: NodeInput): InputSource {
+  return filter.inputs?.[input.id] ?? input.defaultSource;
+}
+
+export function isSameSource(a: InputSource, b: InputSource): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Returns why `source` is not a valid input for the filter at `index`, or null when it is
+export function checkInputSource(pipeline: Filter[], index: number, source: InputSource): string | null {
+  if (source.type !== "node") return null;
+  const target = pipeline.findIndex((f) => f.id === source.nodeId);
+  if (target === -1) return "reads from a filter that is no longer in the pipeline";
+  if (target >= index) return `reads from "${pipeline[target].name}", which does not come before it`;
+  return null;
+}
+
+// Drops node references that dangle or point forward (e.g. after a remove or reorder), so those inputs
+// fall back to their defaults. Returns the same array when nothing needed fixing.
+export function sanitizeInputs(pipeline: Filter[]): Filter[] {
+  let changed = false;
+  const next = pipeline.map((filter, index) => {
+    if (!filter.inputs) return filter;
+
+    const inputs: { [inputId: string]: InputSource } = {};
+    let dropped = false;
+    Object.entries(filter.inputs).forEach(([inputId, source]) => {
+      if (checkInputSource(pipeline, index, source)) dropped = true;
+      else inputs[inputId] = source;
+    });
+    if (!dropped) return filter;
+
+    changed = true;
+    return { ...filter, inputs };
+  });
+  return changed ? next : pipeline;
+}
+
+export function describeInputSource(pipeline: Filter[], source: InputSource): string {
+  switch (source.type) {
+    case "previous":
+      return "Previous stage";
+    case "original":
+      return "Original image";
+    case "node": {
+      const index = pipeline.findIndex((f) => f.id === source.nodeId);
+      return index === -1 ? "Missing filter" : `${index + 1}. ${pipeline[index].name}`;
+    }
+    case "image":
+      return `Image: ${source.imageName}`;
+  }
+}
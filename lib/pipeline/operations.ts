@@ -0,0 +1,52 @@
+import type { Filter, InputSource } from "@/lib/gpu/ReglSurface";
+import { createFilterId } from "./document";
+import { sanitizeInputs } from "./graph";
+
+// Pure pipeline edits; each returns a new array so React state updates stay immutable
+
+export function moveFilter(pipeline: Filter[], filterId: string, toIndex: number): Filter[] {
+  const fromIndex = pipeline.findIndex((f) => f.id === filterId);
+  const target = Math.max(0, Math.min(pipeline.length - 1, toIndex));
+  if (fromIndex === -1 || fromIndex === target) return pipeline;
+
+  const next = [...pipeline];
+  const [moved] = next.splice(fromIndex, 1);
+  next.splice(target, 0, moved);
+  // Moving a filter above one it reads from would create a forward reference; those inputs reset to defaults
+  return sanitizeInputs(next);
+}
+
+export function removeFilter(pipeline: Filter[], filterId: string): Filter[] {
+  const next = pipeline.filter((f) => f.id !== filterId);
+  return next.length === pipeline.length ? pipeline : sanitizeInputs(next);
+}
+
+// Rewires one input; a null source restores the definition default
+export function setFilterInput(
+  pipeline: Filter[],
+  filterId: string,
+  inputId: string,
+  source: InputSource | null
+): Filter[] {
+  return pipeline.map((filter) => {
+    if (filter.id !== filterId) return filter;
+    const inputs = { ...filter.inputs };
+    if (source) inputs[inputId] = source;
+    else delete inputs[inputId];
+    return { ...filter, inputs };
+  });
+}
+
+export function duplicateFilter(pipeline: Filter[], filterId: string): Filter[] {
+  const index = pipeline.findIndex((f) => f.id === filterId);
+  if (index === -1) return pipeline;
+
+  const source = pipeline[index];
+  const copy: Filter = {
+    ...source,
+    id: createFilterId(source.id.split("-")[0]),
+    parameters: { ...source.parameters },
+    inputs: source.inputs && { ...source.inputs },
+  };
+  return [...pipeline.slice(0, index + 1), copy, ...pipeline.slice(index + 1)];
+}
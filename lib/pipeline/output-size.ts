@@ -0,0 +1,63 @@
+// How batch processing and export size their output relative to each source image
+
+export type OutputSizePolicy =
+  | { mode: "original" }
+  // Largest size that fits the box, keeping the aspect ratio; never upscales
+  | { mode: "fit"; width: number; height: number }
+  // Exactly this size, stretching if the aspect ratio differs
+  | { mode: "exact"; width: number; height: number }
+  | { mode: "scale"; percent: number };
+
+export const DEFAULT_OUTPUT_SIZE_POLICY: OutputSizePolicy = { mode: "original" };
+
+export function resolveOutputSize(
+  policy: OutputSizePolicy,
+  width: number,
+  height: number
+): { width: number; height: number } {
+  switch (policy.mode) {
+    case "original":
+      return { width, height };
+    case "fit": {
+      const ratio = Math.min(1, policy.width / width, policy.height / height);
+      return { width: Math.max(1, Math.round(width * ratio)), height: Math.max(1, Math.round(height * ratio)) };
+    }
+    case "exact":
+      return { width: Math.max(1, Math.round(policy.width)), height: Math.max(1, Math.round(policy.height)) };
+    case "scale":
+      return {
+        width: Math.max(1, Math.round((width * policy.percent) / 100)),
+        height: Math.max(1, Math.round((height * policy.percent) / 100)),
+      };
+  }
+}
+
+export function describeOutputSizePolicy(policy: OutputSizePolicy): string {
+  switch (policy.mode) {
+    case "original":
+      return "Original size";
+    case "fit":
+      return `Fit within ${policy.width}×${policy.height}`;
+    case "exact":
+      return `Exactly ${policy.width}×${policy.height}`;
+    case "scale":
+      return `${policy.percent}% scale`;
+  }
+}
+
+// Parses the command-line form: "original", "fit:1920x1080", "exact:800x600" or "scale:50"
+export function parseOutputSizePolicy(text: string): OutputSizePolicy {
+  if (text === "original") return { mode: "original" };
+
+  const box = /^(fit|exact):(\d+)x(\d+)$/.exec(text);
+  if (box) {
+    const width = Number(box[2]);
+    const height = Number(box[3]);
+    if (width >= 1 && height >= 1) return { mode: box[1] as "fit" | "exact", width, height };
+  }
+
+  const scale = /^scale:(\d+(?:\.\d+)?)$/.exec(text);
+  if (scale && Number(scale[1]) > 0) return { mode: "scale", percent: Number(scale[1]) };
+
+  throw new Error(`Invalid output size "${text}": use original, fit:WxH, exact:WxH or scale:PERCENT`);
+}
@@ -0,0 +1,38 @@
+import type { OutputSpace, WorkingSpace } from "@/lib/gpu/color";
+import type { RenderPrecision } from "@/lib/gpu/formats";
+
+// Pipeline-wide options saved alongside the filters in pipeline documents
+export interface PipelineSettings {
+  // Format of intermediate render targets; falls back to the best one the device supports
+  precision: RenderPrecision;
+  // Background color ("#rrggbb") that results are flattened onto; null keeps the alpha channel
+  matte: string | null;
+  // Space that linear filters process in; "srgb" leaves every filter on sRGB-encoded values
+  workingSpace: WorkingSpace;
+  // Space the result is encoded to
+  outputSpace: OutputSpace;
+}
+
+export const DEFAULT_PIPELINE_SETTINGS: PipelineSettings = {
+  precision: "half",
+  matte: null,
+  workingSpace: "srgb-linear",
+  outputSpace: "srgb",
+};
+
+export const DEFAULT_MATTE_COLOR = "#ffffff";
+
+const HEX_COLOR = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i;
+
+// "#rrggbb" to 0-1 RGB, as passed to the engine's present step
+export function parseHexColor(value: string): [number, number, number] {
+  const match = HEX_COLOR.exec(value);
+  if (!match) throw new Error(`Invalid color "${value}": expected #rrggbb`);
+  return [parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255];
+}
+
+export const PRECISION_OPTIONS: { value: RenderPrecision; label: string; description: string }[] = [
+  { value: "unorm8", label: "8-bit", description: "RGBA8 intermediates; each stage quantizes" },
+  { value: "half", label: "16-bit float", description: "RGBA16F intermediates; quantized only at readback" },
+  { value: "float", label: "32-bit float", description: "RGBA32F intermediates and highp shaders" },
+];
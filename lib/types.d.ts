@@ -2,3 +2,14 @@ declare module '*.frag' {
   const value: string;
   export default value;
 }
+
+// File System Access API pickers (Chromium); not in lib.dom yet. Feature-detect before calling.
+interface FilePickerAcceptType {
+  description?: string;
+  accept: Record<string, string[]>;
+}
+
+interface Window {
+  showDirectoryPicker?(options?: { id?: string; mode?: "read" | "readwrite" }): Promise<FileSystemDirectoryHandle>;
+  showSaveFilePicker?(options?: { suggestedName?: string; types?: FilePickerAcceptType[] }): Promise<FileSystemFileHandle>;
+}